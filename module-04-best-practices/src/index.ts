@@ -5,6 +5,13 @@ import type { Context } from './shared/types/index.js';
 import { UserService } from './modules/user/index.js';
 import { PostService } from './modules/post/index.js';
 import { CommentService } from './modules/comment/index.js';
+import { PersistedOperationsMode, usePersistedOperationsMode } from './persisted-operations.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
 
 // Instantiate services
 const userService = new UserService();
@@ -20,6 +27,12 @@ const yoga = createYoga<{}, Context>({
     postService,
     commentService,
   }),
+  plugins: [
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+  ],
   graphiql: {
     title: 'User Post Comment API',
   },
@@ -1,9 +1,22 @@
 import { createServer } from 'node:http';
 import { createYoga } from 'graphql-yoga';
 import { schema } from './schema/index.js';
+import { PersistedOperationsMode, usePersistedOperationsMode } from './persisted-operations.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
 
 const yoga = createYoga({
   schema,
+  plugins: [
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+  ],
   graphiql: {
     title: 'GraphQL Mutations Demo',
   },
@@ -1,19 +1,7 @@
 import { YogaInitialContext } from 'graphql-yoga';
 import { GraphQLContext, AuthUser } from '../types/index.js';
 import { db } from '../db/index.js';
-
-// Simulated JWT token validation
-// In production, use a real JWT library like 'jsonwebtoken'
-const verifyToken = (token: string): AuthUser | null => {
-  // Simulated tokens - in real app, decode and verify JWT
-  const tokenUserMap: Record<string, AuthUser> = {
-    'admin-jwt-token': { id: '1', email: 'admin@example.com', role: 'admin' },
-    'john-jwt-token': { id: '2', email: 'john@example.com', role: 'user' },
-    'jane-jwt-token': { id: '3', email: 'jane@example.com', role: 'user' },
-  };
-
-  return tokenUserMap[token] || null;
-};
+import { verifyToken } from '../services/auth.js';
 
 // Context factory - extracts JWT from headers and validates
 export const createContext = async (
@@ -26,7 +14,8 @@ export const createContext = async (
   let currentUser: AuthUser | null = null;
   
 
-  // Validate JWT token if present
+  // Validate JWT token if present - a bad or expired token is an error,
+  // not an anonymous request
   if (authHeader?.startsWith('Bearer ')) {
     const token = authHeader.slice(7); // Remove 'Bearer ' prefix
     currentUser = verifyToken(token);
@@ -34,6 +23,6 @@ export const createContext = async (
 
   return {
     db,
-    currentUser,  // Will be null if no valid token
+    currentUser,  // Will be null if no token was sent
   };
 };
@@ -1,10 +1,14 @@
 import { Database } from '../types/index.js';
+import { hashPassword } from '../services/auth.js';
 
-// Simple mock database - user list with roles
+// Every demo user logs in with the same password
+const passwordHash = await hashPassword('password123');
+
+// Simple mock database - user list with roles and hashed passwords
 export const db: Database = {
   users: [
-    { id: '1', name: 'Admin User', email: 'admin@example.com', role: 'admin' },
-    { id: '2', name: 'John Doe', email: 'john@example.com', role: 'user' },
-    { id: '3', name: 'Jane Smith', email: 'jane@example.com', role: 'user' },
+    { id: '1', name: 'Admin User', email: 'admin@example.com', role: 'admin', passwordHash },
+    { id: '2', name: 'John Doe', email: 'john@example.com', role: 'user', passwordHash },
+    { id: '3', name: 'Jane Smith', email: 'jane@example.com', role: 'user', passwordHash },
   ],
 };
@@ -2,10 +2,23 @@ import { createServer } from 'node:http';
 import { createYoga } from 'graphql-yoga';
 import { schema } from './schema/index.js';
 import { createContext } from './context/index.js';
+import { PersistedOperationsMode, usePersistedOperationsMode } from './persisted-operations.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
 
 const yoga = createYoga({
   schema,
   context: createContext,
+  plugins: [
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+  ],
   graphiql: {
     title: 'JWT Auth Context Demo',
     defaultQuery: `# JWT Authentication Demo
@@ -20,8 +33,16 @@ query GetUsers {
   }
 }
 
-# 2. Protected query - requires JWT token
-# Add header: { "Authorization": "Bearer john-jwt-token" }
+# 2. Log in to get a JWT (demo password: "password123")
+# mutation Login {
+#   login(email: "john@example.com", password: "password123") {
+#     token
+#     expiresAt
+#   }
+# }
+
+# 3. Protected query - requires JWT token
+# Add header: { "Authorization": "Bearer <token from login>" }
 # query Me {
 #   me {
 #     id
@@ -31,13 +52,13 @@ query GetUsers {
 #   }
 # }
 
-# 3. Admin only query
-# Add header: { "Authorization": "Bearer admin-jwt-token" }
+# 4. Admin only query
+# Log in as admin@example.com and use that token
 # query AdminOnly {
 #   adminOnly
 # }
 
-# 4. Try with wrong token - will get UNAUTHENTICATED error
+# 5. Try with a tampered token - will get INVALID_TOKEN error
 # Add header: { "Authorization": "Bearer invalid-token" }
 # query Me {
 #   me { id name }
@@ -55,11 +76,11 @@ server.listen(PORT, () => {
   console.log(`
 🔐 JWT Authentication Demo
 
-Test tokens (add to Authorization header):
-   - Admin:  Bearer admin-jwt-token
-   - John:   Bearer john-jwt-token
-   - Jane:   Bearer jane-jwt-token
+Log in with the login mutation (password: password123):
+   - Admin:  admin@example.com
+   - John:   john@example.com
+   - Jane:   jane@example.com
 
-Example header: { "Authorization": "Bearer john-jwt-token" }
+Example header: { "Authorization": "Bearer <token>" }
   `);
 });
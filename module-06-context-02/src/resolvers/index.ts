@@ -1,5 +1,7 @@
 import { Query } from './query.js';
+import { Mutation } from './mutation.js';
 
 export const resolvers = {
   Query,
+  Mutation,
 };
@@ -0,0 +1,31 @@
+import { GraphQLError } from 'graphql';
+import { GraphQLContext } from '../types/index.js';
+import { signToken, verifyPassword } from '../services/auth.js';
+
+export const Mutation = {
+  // Public - log in and receive a signed JWT
+  login: async (
+    _: unknown,
+    args: { email: string; password: string },
+    context: GraphQLContext
+  ) => {
+    const user = context.db.users.find(
+      (u) => u.email.toLowerCase() === args.email.toLowerCase()
+    );
+
+    // Same error for unknown email and wrong password - don't reveal which
+    if (!user || !(await verifyPassword(args.password, user.passwordHash))) {
+      throw new GraphQLError('Invalid email or password', {
+        extensions: { code: 'UNAUTHENTICATED' },
+      });
+    }
+
+    const { token, expiresAt } = signToken({
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    });
+
+    return { token, expiresAt, user };
+  },
+};
@@ -7,6 +7,13 @@ export const typeDefs = /* GraphQL */ `
     role: String!
   }
 
+  # Login result - the token goes in the Authorization header
+  type AuthPayload {
+    token: String!
+    expiresAt: String!
+    user: User!
+  }
+
   # Queries
   type Query {
     # Public - get all users
@@ -21,4 +28,10 @@ export const typeDefs = /* GraphQL */ `
     # Protected - admin only query
     adminOnly: String!
   }
+
+  # Mutations
+  type Mutation {
+    # Public - exchange email and password for a JWT
+    login(email: String!, password: String!): AuthPayload!
+  }
 `;
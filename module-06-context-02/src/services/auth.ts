@@ -0,0 +1,105 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import jwt from 'jsonwebtoken';
+import { GraphQLError } from 'graphql';
+import { AuthUser } from '../types/index.js';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+// JWT settings - HS256 with a shared secret by default, or RS256 with a
+// PEM key pair (JWT_PRIVATE_KEY signs, JWT_PUBLIC_KEY verifies)
+const JWT_ALGORITHM = (process.env.JWT_ALGORITHM || 'HS256') as 'HS256' | 'RS256';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '1h';
+const DEV_SECRET = 'dev-only-secret-change-me';
+
+const getSecret = (): string => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  return DEV_SECRET;
+};
+
+// Read when the module loads, so a production server without a secret fails
+// at startup instead of on the first login
+const JWT_SECRET = JWT_ALGORITHM === 'HS256' ? getSecret() : '';
+
+const signingKey = (): string => {
+  if (JWT_ALGORITHM === 'RS256') {
+    if (!process.env.JWT_PRIVATE_KEY) {
+      throw new Error('JWT_PRIVATE_KEY is required when JWT_ALGORITHM=RS256');
+    }
+    return process.env.JWT_PRIVATE_KEY;
+  }
+  return JWT_SECRET;
+};
+
+const verificationKey = (): string => {
+  if (JWT_ALGORITHM === 'RS256') {
+    if (!process.env.JWT_PUBLIC_KEY) {
+      throw new Error('JWT_PUBLIC_KEY is required when JWT_ALGORITHM=RS256');
+    }
+    return process.env.JWT_PUBLIC_KEY;
+  }
+  return JWT_SECRET;
+};
+
+// Sign a JWT for a user - called by the login mutation
+export const signToken = (user: AuthUser): { token: string; expiresAt: string } => {
+  const token = jwt.sign({ email: user.email, role: user.role }, signingKey(), {
+    algorithm: JWT_ALGORITHM,
+    expiresIn: JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+    subject: user.id,
+  });
+
+  const { exp } = jwt.decode(token) as { exp: number };
+  return { token, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+// Verify a JWT and return the user it was issued to.
+// Tampered tokens throw INVALID_TOKEN, expired tokens throw TOKEN_EXPIRED.
+export const verifyToken = (token: string): AuthUser => {
+  try {
+    const payload = jwt.verify(token, verificationKey(), {
+      algorithms: [JWT_ALGORITHM], // Never let the token pick its own algorithm
+    }) as jwt.JwtPayload;
+
+    return {
+      id: payload.sub as string,
+      email: payload.email,
+      role: payload.role,
+    };
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new GraphQLError('Authentication token has expired', {
+        extensions: { code: 'TOKEN_EXPIRED', http: { status: 401 } },
+      });
+    }
+    throw new GraphQLError('Invalid authentication token', {
+      extensions: { code: 'INVALID_TOKEN', http: { status: 401 } },
+    });
+  }
+};
+
+// Password hashing with scrypt - stored as "scrypt$<salt>$<hash>"
+const KEY_LENGTH = 64;
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+// Compare a password against a stored hash in constant time
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
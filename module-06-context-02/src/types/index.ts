@@ -4,6 +4,7 @@ export interface User {
   name: string;
   email: string;
   role: 'admin' | 'user';
+  passwordHash: string; // Never exposed through the schema
 }
 
 // Authenticated user from JWT token
@@ -1,29 +1,45 @@
 import { YogaInitialContext } from 'graphql-yoga';
 import { IncomingMessage } from 'node:http';
-import { GraphQLContext, RequestMeta } from '../types/index.js';
+import { GraphQLContext, Logger, RequestMeta } from '../types/index.js';
 import { createDatabase } from '../db/index.js';
-import { createLogger } from '../services/logger.js';
+import { logger as appLogger } from '../services/logger.js';
 import { authenticateRequest } from '../services/auth.js';
+import { createRateLimitStore } from '../rateLimit/index.js';
 
 // Generate unique request ID
 const generateRequestId = (): string => {
   return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 };
 
-// Extract client IP from request
+// Number of proxies in front of the server (override via environment
+// variables). 0 - clients connect directly and X-Forwarded-For is ignored.
+const TRUST_PROXY = Number(process.env.TRUST_PROXY || 0);
+
+// Extract client IP from request. Clients can send any X-Forwarded-For, so
+// only the addresses appended by our own `TRUST_PROXY` proxies are used -
+// each one appends the address it was connected from.
 const getClientIp = (req: IncomingMessage): string => {
+  const socketIp = req.socket?.remoteAddress || 'unknown';
   const forwarded = req.headers['x-forwarded-for'];
-  if (typeof forwarded === 'string') {
-    return forwarded.split(',')[0].trim();
+  if (TRUST_PROXY <= 0 || typeof forwarded !== 'string') {
+    return socketIp;
   }
-  return req.socket?.remoteAddress || 'unknown';
+
+  // Nearest hop first: the socket, then the forwarded addresses right to left
+  const hops = [socketIp, ...forwarded.split(',').map((ip) => ip.trim()).reverse()];
+  return hops[Math.min(TRUST_PROXY, hops.length - 1)];
 };
 
 // Create database instance (shared across requests - simulating connection pool)
 const db = createDatabase();
 
-// Context factory function - called for each request
-export const createContext = async (
+// Rate limit buckets (shared across requests - they count requests over time)
+const rateLimiter = createRateLimitStore();
+
+// Context factory function - called for each request. Each request logs
+// through a child of `rootLogger` (the application logger by default - tests
+// pass one with their own sink).
+export const createContextFactory = (rootLogger: Logger = appLogger) => async (
   initialContext: YogaInitialContext
 ): Promise<GraphQLContext> => {
   const req = initialContext.request;
@@ -49,16 +65,20 @@ export const createContext = async (
     userAgent,
   };
 
-  // Create request-scoped logger
-  const logger = createLogger(requestId);
-
   // Authenticate request
   const currentUser = authenticateRequest(authHeader);
 
+  // Create request-scoped logger - every entry carries the request ID, user
+  // and operation
+  const logger = rootLogger.child({
+    requestId,
+    userId: currentUser?.id,
+    operationName: initialContext.params?.operationName ?? undefined,
+  });
+
   // Log incoming request
   logger.info('Incoming GraphQL request', {
     authenticated: !!currentUser,
-    userId: currentUser?.id,
   });
 
   return {
@@ -66,6 +86,9 @@ export const createContext = async (
     logger,
     currentUser,
     request: requestMeta,
+    rateLimiter,
     req: rawReq as IncomingMessage,
   };
 };
+
+export const createContext = createContextFactory();
@@ -1,4 +1,8 @@
 import { Database, User, Post } from '../types/index.js';
+import { hashPassword } from '../services/auth.js';
+
+// Every demo user logs in with the same password
+const demoPasswordHash = await hashPassword('password123');
 
 // In-memory data store
 const usersData: User[] = [
@@ -7,6 +11,7 @@ const usersData: User[] = [
     name: 'Admin User',
     email: 'admin@example.com',
     role: 'admin',
+    passwordHash: demoPasswordHash,
     createdAt: new Date().toISOString(),
   },
   {
@@ -14,6 +19,7 @@ const usersData: User[] = [
     name: 'John Doe',
     email: 'john@example.com',
     role: 'user',
+    passwordHash: demoPasswordHash,
     createdAt: new Date().toISOString(),
   },
   {
@@ -21,6 +27,7 @@ const usersData: User[] = [
     name: 'Jane Smith',
     email: 'jane@example.com',
     role: 'user',
+    passwordHash: demoPasswordHash,
     createdAt: new Date().toISOString(),
   },
 ];
@@ -0,0 +1,47 @@
+import { GraphQLSchema, defaultFieldResolver } from 'graphql';
+import { MapperKind, getDirective, mapSchema } from '@graphql-tools/utils';
+import { GraphQLContext } from '../types/index.js';
+import { clientIdentity, consumeRateLimit, parseWindow } from '../rateLimit/index.js';
+
+// Per-field rate limit directive
+//
+//   createPost(input: CreatePostInput!): PostMutationResponse!
+//     @rateLimit(max: 5, window: "1m")
+//
+// Each caller (user, or IP when anonymous) gets its own token bucket per
+// field: up to `max` calls at once, refilled at `max` per `window`. Windows
+// are written as "30s", "1m", "1h" or "1d".
+export const rateLimitDirectiveTypeDefs = /* GraphQL */ `
+  directive @rateLimit(max: Int!, window: String!) on FIELD_DEFINITION
+`;
+
+// Schema transformer - wraps the resolver of every field with @rateLimit.
+// Windows are parsed here, so a typo fails at startup rather than per request.
+export const rateLimitDirectiveTransformer = (schema: GraphQLSchema): GraphQLSchema => {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, fieldName, typeName) => {
+      const directive = getDirective(schema, fieldConfig, 'rateLimit')?.[0];
+      if (!directive) {
+        return fieldConfig;
+      }
+
+      const limit = {
+        max: directive.max as number,
+        windowMs: parseWindow(directive.window as string),
+      };
+      const { resolve = defaultFieldResolver } = fieldConfig;
+
+      return {
+        ...fieldConfig,
+        resolve: async (source, args, context: GraphQLContext, info) => {
+          await consumeRateLimit(
+            context,
+            `${typeName}.${fieldName}:${clientIdentity(context)}`,
+            limit
+          );
+          return resolve(source, args, context, info);
+        },
+      };
+    },
+  });
+};
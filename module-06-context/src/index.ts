@@ -2,10 +2,33 @@ import { createServer } from 'node:http';
 import { createYoga } from 'graphql-yoga';
 import { schema } from './schema/index.js';
 import { createContext } from './context/index.js';
+import { PersistedOperationsMode, usePersistedOperationsMode } from './persisted-operations.js';
+import { useRateLimit } from './rateLimit/plugin.js';
+import { useOperationLogging } from './operation-logging.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
+
+// Operations slower than this (in milliseconds) are logged as warnings
+const SLOW_OPERATION_MS = Number(process.env.SLOW_OPERATION_MS || 500);
 
 const yoga = createYoga({
   schema,
   context: createContext,
+  plugins: [
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+    // Logged before rate limiting so rejected operations are logged too
+    useOperationLogging({ slowThresholdMs: SLOW_OPERATION_MS }),
+    // Every client gets 120 operations a minute; stricter per-field limits
+    // are set with @rateLimit in the schema
+    useRateLimit({ max: 120, window: '1m' }),
+  ],
   graphiql: {
     title: 'GraphQL Context Demo',
     defaultQuery: `# Try these queries!
@@ -32,8 +55,16 @@ query GetPosts {
   }
 }
 
-# 3. To test authenticated queries, add this header:
-# { "Authorization": "Bearer user-token-456" }
+# 3. To test authenticated queries, log in first
+# (demo users share the password "password123"):
+# mutation Login {
+#   login(email: "john@example.com", password: "password123") {
+#     token
+#   }
+# }
+#
+# Add the token as a header:
+# { "Authorization": "Bearer <token>" }
 #
 # Then try:
 # query Me {
@@ -58,11 +89,11 @@ const PORT = process.env.PORT || 4000;
 server.listen(PORT, () => {
   console.log(`🚀 Server is running on http://localhost:${PORT}/graphql`);
   console.log(`
-📝 Available test tokens:
-   - Admin: Bearer admin-token-123
-   - User (John): Bearer user-token-456
-   - User (Jane): Bearer user-token-789
+🔐 Log in with the login mutation (password: password123):
+   - Admin: admin@example.com
+   - User (John): john@example.com
+   - User (Jane): jane@example.com
    
-Add to HTTP Headers: { "Authorization": "Bearer <token>" }
+Add the returned token to HTTP Headers: { "Authorization": "Bearer <token>" }
   `);
 });
@@ -0,0 +1,141 @@
+import {
+  ArgumentNode,
+  DocumentNode,
+  GraphQLError,
+  Kind,
+  ObjectFieldNode,
+  getOperationAST,
+  responsePathAsArray,
+  visit,
+} from 'graphql';
+import { Plugin, isAsyncIterable } from 'graphql-yoga';
+import { useOnResolve } from '@envelop/on-resolve';
+import { GraphQLContext } from './types/index.js';
+import { DEFAULT_REDACT_KEYS } from './services/logger.js';
+
+export interface OperationLoggingOptions {
+  slowThresholdMs: number;   // Operations slower than this are logged as warnings
+  slowestResolvers?: number; // Resolver timings included per entry (default 5)
+}
+
+interface ResolverTiming {
+  path: string;
+  durationMs: number;
+}
+
+const errorCodes = (errors: readonly GraphQLError[] = []): string[] => {
+  const codes = errors.map((error) =>
+    String(error.extensions?.code ?? 'INTERNAL_SERVER_ERROR')
+  );
+  return [...new Set(codes)];
+};
+
+// The logger redacts by field name, but variables are named by the client
+// (`login(email: $e, password: $p)`). Redact every variable passed to an
+// argument or input field with a sensitive name as well.
+const redactVariables = (
+  document: DocumentNode,
+  variables: Record<string, unknown>
+): Record<string, unknown> => {
+  const sensitive = new Set<string>();
+  const check = (node: ArgumentNode | ObjectFieldNode) => {
+    if (
+      node.value.kind === Kind.VARIABLE &&
+      DEFAULT_REDACT_KEYS.includes(node.name.value.toLowerCase())
+    ) {
+      sensitive.add(node.value.name.value);
+    }
+  };
+
+  visit(document, { Argument: check, ObjectField: check });
+
+  return Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [
+      name,
+      sensitive.has(name) ? '[REDACTED]' : value,
+    ])
+  );
+};
+
+// Operation logging
+//
+// Writes one entry per operation once it has executed, through the request's
+// logger (so it carries the request ID and user):
+//
+//   {"level":"info","msg":"Operation completed","operationName":"Me",
+//    "operationType":"query","variables":{},"durationMs":12,"errorCodes":[],
+//    "slowestResolvers":[{"path":"me.posts","durationMs":3}], ...}
+//
+// Duration is measured from `context.request.startTime`. Variables are
+// redacted like any other log field, so passwords and emails don't end up in
+// the logs. Only fields with their own resolver are timed - default resolvers
+// just read a property.
+export const useOperationLogging = ({
+  slowThresholdMs,
+  slowestResolvers = 5,
+}: OperationLoggingOptions): Plugin<GraphQLContext> => {
+  // Resolver timings of the operations running, by context
+  const timings = new WeakMap<object, ResolverTiming[]>();
+
+  return {
+    onPluginInit({ addPlugin }) {
+      addPlugin(
+        useOnResolve(
+          ({ context, info }) => {
+            const resolvers = timings.get(context);
+            if (!resolvers) {
+              return;
+            }
+
+            const start = performance.now();
+            return () => {
+              resolvers.push({
+                path: responsePathAsArray(info.path).join('.'),
+                durationMs: Math.round(performance.now() - start),
+              });
+            };
+          },
+          { skipIntrospection: true, skipDefaultResolvers: true }
+        )
+      );
+    },
+
+    onExecute({ args }) {
+      const context = args.contextValue;
+      const operation = getOperationAST(args.document, args.operationName);
+      const resolvers: ResolverTiming[] = [];
+      timings.set(context, resolvers);
+
+      return {
+        onExecuteDone({ result }) {
+          timings.delete(context);
+
+          // Incremental delivery (@defer / @stream) - not timed
+          if (isAsyncIterable(result)) {
+            return;
+          }
+
+          const durationMs = Date.now() - context.request.startTime;
+          const slow = durationMs > slowThresholdMs;
+
+          const meta = {
+            operationName: operation?.name?.value ?? args.operationName ?? undefined,
+            operationType: operation?.operation,
+            variables: redactVariables(args.document, args.variableValues ?? {}),
+            durationMs,
+            errorCodes: errorCodes(result.errors),
+            slowestResolvers: resolvers
+              .sort((a, b) => b.durationMs - a.durationMs)
+              .slice(0, slowestResolvers),
+          };
+
+          if (slow) {
+            context.logger.warn('Slow operation', { ...meta, slowThresholdMs });
+          } else {
+            context.logger.info('Operation completed', meta);
+          }
+        },
+      };
+    },
+  };
+};
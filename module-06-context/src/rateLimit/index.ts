@@ -0,0 +1,72 @@
+import { GraphQLError } from 'graphql';
+import { GraphQLContext, RateLimit, RateLimitStore } from '../types/index.js';
+import { createMemoryRateLimitStore } from './memory.js';
+import { createRedisRateLimitStore } from './redis.js';
+
+// Storage backend (override via environment variables). Use redis when more
+// than one server instance shares the limits.
+const RATE_LIMIT_BACKEND = process.env.RATE_LIMIT_BACKEND || 'memory';
+const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+
+export const createRateLimitStore = (): RateLimitStore => {
+  switch (RATE_LIMIT_BACKEND) {
+    case 'memory':
+      return createMemoryRateLimitStore();
+    case 'redis':
+      return createRedisRateLimitStore(REDIS_URL);
+    default:
+      throw new Error(`Unknown RATE_LIMIT_BACKEND "${RATE_LIMIT_BACKEND}" (expected memory or redis)`);
+  }
+};
+
+const windowUnits: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Parse a window like "30s", "1m", "1h" or "1d" into milliseconds
+export const parseWindow = (window: string): number => {
+  const match = /^(\d+)\s*(ms|s|m|h|d)$/.exec(window.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid rate limit window "${window}" (expected e.g. "30s", "1m", "1h")`);
+  }
+  return Number(match[1]) * windowUnits[match[2]];
+};
+
+// Authenticated callers are limited per user (wherever they connect from),
+// anonymous ones per client IP
+export const clientIdentity = (context: GraphQLContext): string => {
+  return context.currentUser
+    ? `user:${context.currentUser.id}`
+    : `ip:${context.request.ip}`;
+};
+
+// Take a token from the bucket, or throw RATE_LIMITED with how long to wait
+export const consumeRateLimit = async (
+  context: GraphQLContext,
+  key: string,
+  limit: RateLimit
+): Promise<void> => {
+  const { allowed, retryAfterMs } = await context.rateLimiter.take(key, limit);
+  if (allowed) {
+    return;
+  }
+
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+
+  context.logger.warn('Rate limit exceeded', { key, retryAfter });
+
+  throw new GraphQLError(`Too many requests, retry in ${retryAfter}s`, {
+    extensions: {
+      code: 'RATE_LIMITED',
+      retryAfter,
+      http: {
+        status: 429,
+        headers: { 'Retry-After': String(retryAfter) },
+      },
+    },
+  });
+};
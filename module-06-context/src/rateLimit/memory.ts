@@ -0,0 +1,58 @@
+import { RateLimitStore } from '../types/index.js';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number; // When the bucket will have refilled completely
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// In-process token buckets - each replica counts on its own.
+// Buckets that have refilled completely are dropped once a minute; a missing
+// bucket is the same as a full one.
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, Bucket>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) {
+        buckets.delete(key);
+      }
+    }
+    lastSweep = now;
+  };
+
+  return {
+    take: async (key, { max, windowMs }) => {
+      const now = Date.now();
+      if (now - lastSweep > SWEEP_INTERVAL_MS) {
+        sweep(now);
+      }
+
+      const rate = max / windowMs; // Tokens per millisecond
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(max, bucket.tokens + (now - bucket.updatedAt) * rate)
+        : max;
+
+      const allowed = tokens >= 1;
+      if (allowed) {
+        tokens -= 1;
+      }
+
+      buckets.set(key, {
+        tokens,
+        updatedAt: now,
+        fullAt: now + (max - tokens) / rate,
+      });
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+      };
+    },
+  };
+};
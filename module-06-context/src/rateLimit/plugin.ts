@@ -0,0 +1,47 @@
+import { GraphQLError } from 'graphql';
+import { Plugin } from 'graphql-yoga';
+import { GraphQLContext } from '../types/index.js';
+import { consumeRateLimit, clientIdentity, parseWindow } from './index.js';
+
+export interface GlobalRateLimitOptions {
+  max: number;    // Operations per window for each client
+  window: string; // e.g. "1m"
+}
+
+// Global rate limit
+//
+// Every operation (query, mutation or subscription) takes a token from the
+// caller's global bucket before it executes. Stricter per-field limits are
+// declared with @rateLimit in the schema (src/directives/rateLimit.ts) and
+// are taken on top of this one.
+export const useRateLimit = ({ max, window }: GlobalRateLimitOptions): Plugin<GraphQLContext> => {
+  const limit = { max, windowMs: parseWindow(window) };
+
+  const check = async (context: GraphQLContext): Promise<GraphQLError | null> => {
+    try {
+      await consumeRateLimit(context, `global:${clientIdentity(context)}`, limit);
+      return null;
+    } catch (error) {
+      if (error instanceof GraphQLError) {
+        return error;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    async onExecute({ args, setResultAndStopExecution }) {
+      const error = await check(args.contextValue);
+      if (error) {
+        setResultAndStopExecution({ errors: [error] });
+      }
+    },
+
+    async onSubscribe({ args, setResultAndStopExecution }) {
+      const error = await check(args.contextValue);
+      if (error) {
+        setResultAndStopExecution({ errors: [error] });
+      }
+    },
+  };
+};
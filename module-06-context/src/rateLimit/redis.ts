@@ -0,0 +1,60 @@
+import { Redis } from 'ioredis';
+import { RateLimitStore } from '../types/index.js';
+import { logger } from '../services/logger.js';
+
+// Refill and take a token in one atomic step. Uses the Redis server clock so
+// replicas with drifting clocks still agree on the refill. Returns whether a
+// token was taken and the tokens left (as a string - Lua numbers are
+// truncated to integers in replies).
+const TAKE_TOKEN_SCRIPT = `
+local max = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or max
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(max, tokens + (now - updatedAt) * rate)
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((max - tokens) / rate) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+// Token buckets shared by every replica connected to the same Redis server
+export const createRedisRateLimitStore = (url: string): RateLimitStore => {
+  const client = new Redis(url);
+
+  // ioredis reconnects on its own - log instead of crashing the process
+  const log = logger.child({ component: 'rate-limit' });
+  client.on('error', (error: Error) => {
+    log.error('Redis connection error', { error });
+  });
+
+  return {
+    take: async (key, { max, windowMs }) => {
+      const rate = max / windowMs;
+      const [allowed, left] = (await client.eval(
+        TAKE_TOKEN_SCRIPT,
+        1,
+        `ratelimit:${key}`,
+        max,
+        rate
+      )) as [number, string];
+      const tokens = Number(left);
+
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(tokens),
+        retryAfterMs: allowed === 1 ? 0 : Math.ceil((1 - tokens) / rate),
+      };
+    },
+  };
+};
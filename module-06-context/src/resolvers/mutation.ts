@@ -1,7 +1,37 @@
 import { GraphQLError } from 'graphql';
 import { GraphQLContext, CreatePostInput, UpdatePostInput } from '../types/index.js';
+import { generateToken, verifyPassword } from '../services/auth.js';
 
 export const Mutation = {
+  // Log in with email and password (public)
+  login: async (
+    _: unknown,
+    args: { email: string; password: string },
+    context: GraphQLContext
+  ) => {
+    const { db, logger } = context;
+
+    const user = db.users.findByEmail(args.email);
+
+    // Same error for unknown email and wrong password
+    if (!user || !(await verifyPassword(args.password, user.passwordHash))) {
+      logger.warn('Failed login attempt', { email: args.email });
+      throw new GraphQLError('Invalid email or password', {
+        extensions: { code: 'UNAUTHENTICATED' },
+      });
+    }
+
+    const { token, expiresAt } = generateToken({
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    });
+
+    logger.info('User logged in', { userId: user.id });
+
+    return { token, expiresAt, user };
+  },
+
   // Create a new post (authenticated users only)
   createPost: (
     _: unknown,
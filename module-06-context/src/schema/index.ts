@@ -1,8 +1,16 @@
 import { createSchema } from 'graphql-yoga';
 import { typeDefs } from './typeDefs.js';
 import { resolvers } from '../resolvers/index.js';
+import {
+  rateLimitDirectiveTypeDefs,
+  rateLimitDirectiveTransformer,
+} from '../directives/rateLimit.js';
 
-export const schema = createSchema({
-  typeDefs,
-  resolvers,
-});
+// Per-field rate limits are declared with @rateLimit in the SDL and enforced
+// by wrapping resolvers after the schema is built
+export const schema = rateLimitDirectiveTransformer(
+  createSchema({
+    typeDefs: [rateLimitDirectiveTypeDefs, typeDefs],
+    resolvers,
+  })
+);
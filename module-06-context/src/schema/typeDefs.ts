@@ -42,6 +42,13 @@ export const typeDefs = /* GraphQL */ `
     published: Boolean
   }
 
+  # Login result
+  type AuthPayload {
+    token: String!
+    expiresAt: String!
+    user: User!
+  }
+
   # Mutation responses
   type PostMutationResponse {
     success: Boolean!
@@ -80,8 +87,11 @@ export const typeDefs = /* GraphQL */ `
 
   # Mutations
   type Mutation {
-    # Create a new post (authenticated)
-    createPost(input: CreatePostInput!): PostMutationResponse!
+    # Log in and receive a signed JWT (limited to slow down password guessing)
+    login(email: String!, password: String!): AuthPayload! @rateLimit(max: 10, window: "15m")
+    
+    # Create a new post (authenticated, at most 5 a minute)
+    createPost(input: CreatePostInput!): PostMutationResponse! @rateLimit(max: 5, window: "1m")
     
     # Update a post (owner or admin)
     updatePost(id: ID!, input: UpdatePostInput!): PostMutationResponse!
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createYoga } from 'graphql-yoga';
+import { schema } from '../schema/index.js';
+import { createContextFactory } from '../context/index.js';
+import { useOperationLogging } from '../operation-logging.js';
+import { LogEntry } from '../types/index.js';
+import { createLogger } from './logger.js';
+
+// A server whose logs go to an array instead of stdout
+const createCapturingServer = () => {
+  const entries: LogEntry[] = [];
+  const logger = createLogger({}, { level: 'debug', sink: (entry) => entries.push(entry) });
+
+  const yoga = createYoga({
+    schema,
+    context: createContextFactory(logger),
+    plugins: [useOperationLogging({ slowThresholdMs: 60_000 })],
+    logging: false,
+  });
+
+  return { yoga, entries };
+};
+
+describe('logger', () => {
+  it('writes entries of one request with the same request fields', async () => {
+    const { yoga, entries } = createCapturingServer();
+
+    const response = await yoga.fetch('http://localhost/graphql', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        query: 'mutation Login($e: String!, $p: String!) { login(email: $e, password: $p) { token } }',
+        operationName: 'Login',
+        variables: { e: 'john@example.com', p: 'wrong-password' },
+      }),
+    });
+    await response.json();
+
+    assert.deepEqual(
+      entries.map((entry) => entry.msg),
+      ['Incoming GraphQL request', 'Failed login attempt', 'Operation completed']
+    );
+
+    const [first] = entries;
+    assert.match(String(first.requestId), /^req_/);
+    for (const entry of entries) {
+      assert.equal(entry.requestId, first.requestId);
+      assert.equal(entry.operationName, 'Login');
+      assert.ok(!Number.isNaN(Date.parse(entry.time)));
+    }
+
+    const [, failed, completed] = entries;
+    assert.equal(failed.level, 'warn');
+    assert.equal(completed.level, 'info');
+    assert.equal(completed.operationType, 'mutation');
+    assert.deepEqual(completed.errorCodes, ['UNAUTHENTICATED']);
+  });
+
+  it('redacts sensitive fields and variables', async () => {
+    const { yoga, entries } = createCapturingServer();
+
+    await yoga.fetch('http://localhost/graphql', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        query: 'mutation Login($e: String!, $p: String!) { login(email: $e, password: $p) { token } }',
+        variables: { e: 'john@example.com', p: 'wrong-password' },
+      }),
+    });
+
+    const failed = entries.find((entry) => entry.msg === 'Failed login attempt');
+    assert.equal(failed?.email, '[REDACTED]');
+
+    const completed = entries.find((entry) => entry.msg === 'Operation completed');
+    assert.deepEqual(completed?.variables, { e: '[REDACTED]', p: '[REDACTED]' });
+
+    const serialized = JSON.stringify(entries);
+    assert.ok(!serialized.includes('john@example.com'));
+    assert.ok(!serialized.includes('wrong-password'));
+  });
+
+  it('filters by level and passes bindings to child loggers', () => {
+    const entries: LogEntry[] = [];
+    const logger = createLogger({ requestId: 'req_1' }, {
+      level: 'info',
+      sink: (entry) => entries.push(entry),
+    });
+
+    const child = logger.child({ userId: '2' });
+    child.debug('Hidden');
+    child.info('Shown', { headers: { Authorization: 'Bearer secret' } });
+
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].requestId, 'req_1');
+    assert.equal(entries[0].userId, '2');
+    assert.deepEqual(entries[0].headers, { Authorization: '[REDACTED]' });
+  });
+});
@@ -6,6 +6,7 @@ export interface User {
   name: string;
   email: string;
   role: 'admin' | 'user';
+  passwordHash: string;
   createdAt: string;
 }
 
@@ -44,11 +45,38 @@ export interface Database {
   };
 }
 
+// Log levels, from most to least verbose
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+// Fields attached to every entry of a logger and its children
+export interface LogBindings {
+  requestId?: string;
+  userId?: string;
+  operationName?: string;
+  [key: string]: unknown;
+}
+
+// One structured log line
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [key: string]: unknown;
+}
+
+// Where entries are written (stdout by default, an array in tests)
+export type LogSink = (entry: LogEntry) => void;
+
 // Logger interface
 export interface Logger {
+  trace: (message: string, meta?: Record<string, unknown>) => void;
+  debug: (message: string, meta?: Record<string, unknown>) => void;
   info: (message: string, meta?: Record<string, unknown>) => void;
-  error: (message: string, meta?: Record<string, unknown>) => void;
   warn: (message: string, meta?: Record<string, unknown>) => void;
+  error: (message: string, meta?: Record<string, unknown>) => void;
+
+  // Logger whose entries also carry `bindings`
+  child: (bindings: LogBindings) => Logger;
 }
 
 // Request metadata (request-scoped data)
@@ -59,6 +87,24 @@ export interface RequestMeta {
   userAgent: string;
 }
 
+// Token bucket limit: up to `max` requests at once, refilled at `max` per `windowMs`
+export interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;    // Whole tokens left after this request
+  retryAfterMs: number; // Time until the next token (0 when allowed)
+}
+
+// Rate limit storage (in-memory or shared through Redis)
+export interface RateLimitStore {
+  // Take one token from the bucket under `key`
+  take: (key: string, limit: RateLimit) => Promise<RateLimitResult>;
+}
+
 // GraphQL Context type
 export interface GraphQLContext {
   // Database connection
@@ -73,6 +119,9 @@ export interface GraphQLContext {
   // Request-scoped metadata
   request: RequestMeta;
 
+  // Token buckets shared by every request (global and @rateLimit limits)
+  rateLimiter: RateLimitStore;
+
   // Raw HTTP request (for advanced use cases)
   req: IncomingMessage;
 }
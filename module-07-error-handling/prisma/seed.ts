@@ -0,0 +1,35 @@
+import { PrismaClient } from '@prisma/client';
+import { products } from '../src/data/index.js';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('🌱 Seeding database...');
+
+  // Clean existing data
+  await prisma.idempotencyKey.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.orderStatusChange.deleteMany();
+  await prisma.orderLine.deleteMany();
+  await prisma.order.deleteMany();
+  await prisma.product.deleteMany();
+
+  // Same catalogue as the in-memory store (ids included, so the README
+  // examples work against either backend)
+  for (const product of products) {
+    await prisma.product.create({ data: product });
+  }
+
+  console.log(`✅ Created ${products.length} products`);
+
+  console.log('🎉 Seeding completed!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Seeding failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -7,6 +7,7 @@ export const users: User[] = [
   { id: '3', name: 'Jane Smith', email: 'jane@example.com', role: 'user' },
 ];
 
+// Seed products (the store repository takes ownership of these)
 export const products: Product[] = [
   { id: '1', name: 'Laptop', price: 999.99, stock: 10 },
   { id: '2', name: 'Mouse', price: 29.99, stock: 50 },
@@ -14,24 +15,41 @@ export const products: Product[] = [
   { id: '4', name: 'Monitor', price: 299.99, stock: 5 },
 ];
 
+const daysAgo = (days: number): string =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+// Seed orders (the store repository takes ownership of these)
 export const orders: Order[] = [
   {
     id: '1',
     userId: '2',
-    productId: '1',
-    quantity: 1,
+    lines: [{ productId: '1', quantity: 1, unitPrice: 999.99 }],
     status: 'delivered',
-    createdAt: new Date().toISOString(),
+    history: [
+      { from: null, to: 'pending', changedAt: daysAgo(5), changedBy: '2' },
+      { from: 'pending', to: 'confirmed', changedAt: daysAgo(5), changedBy: '1' },
+      { from: 'confirmed', to: 'shipped', changedAt: daysAgo(4), changedBy: '1' },
+      { from: 'shipped', to: 'delivered', changedAt: daysAgo(2), changedBy: '1' },
+    ],
+    payment: {
+      id: 'pay_seed_1',
+      amount: 999.99,
+      cardLast4: '4242',
+      idempotencyKey: 'seed-order-1',
+      capturedAt: daysAgo(5),
+    },
+    createdAt: daysAgo(5),
   },
   {
     id: '2',
     userId: '2',
-    productId: '2',
-    quantity: 2,
+    lines: [{ productId: '2', quantity: 2, unitPrice: 29.99 }],
     status: 'cancelled',
-    createdAt: new Date().toISOString(),
+    history: [
+      { from: null, to: 'pending', changedAt: daysAgo(1), changedBy: '2' },
+      { from: 'pending', to: 'cancelled', changedAt: daysAgo(1), changedBy: '2' },
+    ],
+    payment: null,
+    createdAt: daysAgo(1),
   },
 ];
-
-let nextOrderId = 3;
-export const generateOrderId = (): string => String(nextOrderId++);
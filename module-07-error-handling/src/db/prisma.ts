@@ -0,0 +1,11 @@
+import { PrismaClient } from '@prisma/client';
+
+// One PrismaClient for the whole process - the store and the idempotency
+// keys share its connection pool. It's created on first use, so the default
+// in-memory backend runs without a generated client or a database.
+let client: PrismaClient | undefined;
+
+export const getPrisma = (): PrismaClient => {
+  client ??= new PrismaClient();
+  return client;
+};
@@ -152,9 +152,10 @@ export class OrderCancelledError extends BaseError {
 }
 
 export class PaymentFailedError extends BaseError {
-  constructor(reason: string) {
+  constructor(reason: string, details?: Record<string, unknown>) {
     super(`Payment failed: ${reason}`, ErrorCode.PAYMENT_FAILED, {
       reason,
+      ...details,
     });
   }
 }
@@ -0,0 +1,68 @@
+import { randomUUID } from 'node:crypto';
+import { GraphQLError } from 'graphql';
+import { BaseError, ErrorCode } from './index.js';
+import { logger } from '../services/logger.js';
+
+const log = logger.child({ component: 'errors' });
+
+export interface MaskErrorOptions {
+  // Add the original message and stack trace to masked errors (never in production)
+  includeStack: boolean;
+}
+
+// An error we threw on purpose - a BaseError subclass, whether thrown
+// directly or wrapped by GraphQL with its path - or one GraphQL produced
+// itself before execution (syntax, validation, variable coercion), which
+// carries neither an original error nor a path. Anything else, including a
+// plain GraphQLError thrown by a resolver, is unexpected.
+const isExpectedError = (error: unknown): error is GraphQLError => {
+  if (error instanceof BaseError) {
+    return true;
+  }
+  if (!(error instanceof GraphQLError)) {
+    return false;
+  }
+  if (error.originalError) {
+    return error.originalError instanceof BaseError;
+  }
+  return error.path === undefined;
+};
+
+// Error masking policy for Yoga's `maskedErrors.maskError` hook.
+//
+// Expected errors are sent to the client unchanged. Unexpected errors are
+// replaced with a generic INTERNAL_ERROR carrying an `errorId`; the full error
+// and stack are logged under the same id, so a user report can be matched to
+// the server log without leaking internals in the response.
+export const createMaskError = ({ includeStack }: MaskErrorOptions) => {
+  return (error: unknown, message: string): Error => {
+    if (isExpectedError(error)) {
+      return error;
+    }
+
+    const original =
+      error instanceof GraphQLError && error.originalError ? error.originalError : error;
+    const cause = original instanceof Error ? original : new Error(String(original));
+    const errorId = randomUUID();
+
+    log.error('Unexpected error', {
+      errorId,
+      errorName: cause.name,
+      errorMessage: cause.message,
+      stack: cause.stack,
+    });
+
+    return new GraphQLError(message, {
+      nodes: error instanceof GraphQLError ? error.nodes : undefined,
+      path: error instanceof GraphQLError ? error.path : undefined,
+      extensions: {
+        code: ErrorCode.INTERNAL_ERROR,
+        errorId,
+        ...(includeStack && {
+          originalMessage: cause.message,
+          stacktrace: cause.stack?.split('\n'),
+        }),
+      },
+    });
+  };
+};
@@ -0,0 +1,16 @@
+import { getPrisma } from '../db/prisma.js';
+import { IdempotencyStore } from '../types/index.js';
+import { createMemoryIdempotencyStore } from './memory.js';
+import { createPrismaIdempotencyStore } from './prisma.js';
+
+export { useIdempotency } from './plugin.js';
+
+// Idempotency keys live next to the orders they protect, so they use the
+// same STORE_BACKEND as the store (see src/repositories)
+const STORE_BACKEND = (process.env.STORE_BACKEND || 'memory') as 'memory' | 'prisma';
+
+export const createIdempotencyStore = (): IdempotencyStore => {
+  return STORE_BACKEND === 'prisma'
+    ? createPrismaIdempotencyStore(getPrisma())
+    : createMemoryIdempotencyStore();
+};
@@ -0,0 +1,56 @@
+import {
+  IdempotencyRecord,
+  IdempotencyScope,
+  IdempotencyStore,
+} from '../types/index.js';
+
+interface Entry extends IdempotencyRecord {
+  expiresAt: number;
+}
+
+const scopeKey = ({ key, userId, operation }: IdempotencyScope): string =>
+  JSON.stringify([key, userId, operation]);
+
+// In-process store - keys are only seen by this process and are lost on
+// restart. Claims are synchronous, so two concurrent requests can't both win.
+export const createMemoryIdempotencyStore = (): IdempotencyStore => {
+  const entries = new Map<string, Entry>();
+
+  const removeExpired = (now: number) => {
+    for (const [id, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(id);
+      }
+    }
+  };
+
+  return {
+    claim: async (scope, fingerprint, expiresAt) => {
+      removeExpired(Date.now());
+
+      const id = scopeKey(scope);
+      const existing = entries.get(id);
+      if (existing) {
+        return { fingerprint: existing.fingerprint, response: existing.response };
+      }
+
+      entries.set(id, { fingerprint, response: null, expiresAt: expiresAt.getTime() });
+      return null;
+    },
+
+    complete: async (scope, response, expiresAt) => {
+      const entry = entries.get(scopeKey(scope));
+      if (entry) {
+        entry.response = response;
+        entry.expiresAt = expiresAt.getTime();
+      }
+    },
+
+    release: async (scope) => {
+      const id = scopeKey(scope);
+      if (entries.get(id)?.response === null) {
+        entries.delete(id);
+      }
+    },
+  };
+};
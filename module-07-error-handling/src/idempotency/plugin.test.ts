@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSchema, createYoga } from 'graphql-yoga';
+import { NotFoundError } from '../errors/index.js';
+import { createMaskError } from '../errors/masking.js';
+import { createMemoryIdempotencyStore } from './memory.js';
+import { useIdempotency } from './plugin.js';
+
+// A server whose `charge` mutation commits, then fails in a nested field
+// (`receipt`), and whose `fail` mutation fails before doing anything.
+// `runs` counts how often each one actually ran.
+const createServer = () => {
+  const runs = { charge: 0, fail: 0 };
+
+  const schema = createSchema({
+    typeDefs: /* GraphQL */ `
+      type Query {
+        ok: Boolean
+      }
+      type Charge {
+        id: ID!
+        receipt: String
+      }
+      type Mutation {
+        charge: Charge
+        fail: Charge
+      }
+    `,
+    resolvers: {
+      Mutation: {
+        charge: () => {
+          runs.charge += 1;
+          return { id: String(runs.charge) };
+        },
+        fail: () => {
+          runs.fail += 1;
+          throw new NotFoundError('Card', '1');
+        },
+      },
+      Charge: {
+        receipt: () => {
+          throw new Error('Receipt service unavailable');
+        },
+      },
+    },
+  });
+
+  const yoga = createYoga({
+    schema,
+    context: () => ({ currentUser: null }),
+    plugins: [useIdempotency({ store: createMemoryIdempotencyStore() })],
+    maskedErrors: { maskError: createMaskError({ includeStack: false }) },
+    logging: false,
+  });
+
+  const send = async (query: string, key: string) => {
+    const response = await yoga.fetch('http://localhost/graphql', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'idempotency-key': key },
+      body: JSON.stringify({ query }),
+    });
+    return { response, body: await response.json() };
+  };
+
+  return { runs, send };
+};
+
+describe('idempotency plugin', () => {
+  it('stores a response whose root field succeeded despite a nested error', async () => {
+    const { runs, send } = createServer();
+    const query = 'mutation { charge { id receipt } }';
+
+    const first = await send(query, 'key-1');
+    assert.deepEqual(first.body.data, { charge: { id: '1', receipt: null } });
+    assert.equal(first.body.errors[0].extensions.code, 'INTERNAL_ERROR');
+
+    const retry = await send(query, 'key-1');
+    assert.equal(runs.charge, 1);
+    assert.equal(retry.response.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(retry.body, first.body);
+  });
+
+  it('releases the key when the root field fails', async () => {
+    const { runs, send } = createServer();
+    const query = 'mutation { fail { id } }';
+
+    const first = await send(query, 'key-2');
+    assert.equal(first.body.data.fail, null);
+    assert.equal(first.body.errors[0].extensions.code, 'NOT_FOUND');
+
+    const retry = await send(query, 'key-2');
+    assert.equal(runs.fail, 2);
+    assert.equal(retry.response.headers.get('idempotent-replayed'), null);
+  });
+});
@@ -0,0 +1,174 @@
+import { createHash } from 'node:crypto';
+import { ExecutionResult, Kind, OperationTypeNode, getOperationAST, print } from 'graphql';
+import { Plugin } from 'graphql-yoga';
+import { isAsyncIterable } from '@graphql-tools/utils';
+import { ConflictError, ValidationError } from '../errors/index.js';
+import { GraphQLContext, IdempotencyScope, IdempotencyStore } from '../types/index.js';
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  ttlMs?: number;     // How long a stored response is replayed (default 24 hours)
+  lockMs?: number;    // How long an unfinished request holds its key (default 1 minute)
+  exclude?: string[]; // Mutations that are never stored, e.g. ones returning secrets
+}
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const REPLAYED_HEADER = 'idempotent-replayed';
+const MAX_KEY_LENGTH = 255;
+
+// JSON with sorted object keys, so the same variables always hash the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Idempotency-Key support for mutations
+//
+// The first request with a key runs normally and its response is stored per
+// key + user + mutation. A retry with the same key gets the stored response
+// back (marked with an `Idempotent-Replayed: true` header) without running
+// the mutation again. Reusing a key for a different request is a CONFLICT.
+//
+// A response is stored once a root mutation field returned data - its side
+// effect happened, even if a nested field failed, so a retry must not run it
+// again. Only when every root field failed is the key released, so the
+// client can fix the problem and retry with the same key.
+//
+// Responses are stored and replayed in onExecutionResult, after errors have
+// been masked, so a replay carries exactly the errors the first response did.
+export const useIdempotency = ({
+  store,
+  ttlMs = 24 * 60 * 60 * 1000,
+  lockMs = 60 * 1000,
+  exclude = [],
+}: IdempotencyOptions): Plugin<GraphQLContext> => {
+  // Requests holding a key: the scope and the root fields' response keys
+  const claims = new WeakMap<Request, { scope: IdempotencyScope; responseKeys: string[] }>();
+  // Requests answered with a stored response
+  const replays = new WeakMap<Request, string>();
+
+  return {
+    async onExecute({ args, setResultAndStopExecution }) {
+      // WebSocket operations have no request headers
+      const request: Request | undefined = args.contextValue.request;
+      const key = request?.headers.get(IDEMPOTENCY_HEADER);
+      if (!request || key == null) {
+        return;
+      }
+
+      const operation = getOperationAST(args.document, args.operationName);
+      if (operation?.operation !== OperationTypeNode.MUTATION) {
+        return;
+      }
+
+      const rootFields = operation.selectionSet.selections.flatMap((selection) =>
+        selection.kind === Kind.FIELD ? [selection] : []
+      );
+      const fields = rootFields.map((field) => field.name.value);
+      if (fields.some((field) => exclude.includes(field))) {
+        return;
+      }
+
+      if (key.trim() === '' || key.length > MAX_KEY_LENGTH) {
+        setResultAndStopExecution({
+          errors: [
+            new ValidationError(
+              `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`,
+              'Idempotency-Key',
+              key
+            ),
+          ],
+        });
+        return;
+      }
+
+      const scope: IdempotencyScope = {
+        key,
+        userId: args.contextValue.currentUser?.id ?? 'anonymous',
+        operation: fields.join(','),
+      };
+      const fingerprint = createHash('sha256')
+        .update(print(args.document))
+        .update(args.operationName ?? '')
+        .update(canonicalJson(args.variableValues ?? {}))
+        .digest('hex');
+
+      const existing = await store.claim(scope, fingerprint, new Date(Date.now() + lockMs));
+
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          setResultAndStopExecution({
+            errors: [
+              new ConflictError('Idempotency-Key was already used for a different request', {
+                idempotencyKey: key,
+              }),
+            ],
+          });
+        } else if (existing.response === null) {
+          setResultAndStopExecution({
+            errors: [
+              new ConflictError('A request with this Idempotency-Key is still in progress', {
+                idempotencyKey: key,
+              }),
+            ],
+          });
+        } else {
+          // Replaced with the stored response in onExecutionResult
+          replays.set(request, existing.response);
+          setResultAndStopExecution({ data: null });
+        }
+        return;
+      }
+
+      claims.set(request, {
+        scope,
+        responseKeys: rootFields.map((field) => field.alias?.value ?? field.name.value),
+      });
+    },
+
+    async onExecutionResult({ request, result, setResult }) {
+      const replay = replays.get(request);
+      if (replay !== undefined) {
+        setResult(JSON.parse(replay) as ExecutionResult);
+        return;
+      }
+
+      const claim = claims.get(request);
+      if (!claim) {
+        return;
+      }
+      claims.delete(request);
+
+      const committed =
+        result !== undefined &&
+        !isAsyncIterable(result) &&
+        claim.responseKeys.some((key) => result.data?.[key] != null);
+
+      if (!committed) {
+        await store.release(claim.scope);
+        return;
+      }
+
+      const response = JSON.stringify({
+        data: result.data,
+        ...(result.errors?.length && { errors: result.errors }),
+      });
+      await store.complete(claim.scope, response, new Date(Date.now() + ttlMs));
+    },
+
+    onResponse({ request, response }) {
+      if (replays.has(request)) {
+        response.headers.set(REPLAYED_HEADER, 'true');
+      }
+    },
+  };
+};
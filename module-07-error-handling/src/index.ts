@@ -3,6 +3,22 @@ import { createYoga } from 'graphql-yoga';
 import { schema } from './schema/index.js';
 import { GraphQLContext, User } from './types/index.js';
 import { users } from './data/index.js';
+import { createMaskError } from './errors/masking.js';
+import { createStore } from './repositories/index.js';
+import { createFakePaymentGateway } from './payments/fake.js';
+import { createIdempotencyStore, useIdempotency } from './idempotency/index.js';
+import { PersistedOperationsMode, usePersistedOperationsMode } from './persisted-operations.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
+
+// Set ERROR_INCLUDE_STACK=true to see the original message and stack of
+// masked errors while developing. Ignored when NODE_ENV=production.
+const INCLUDE_STACK =
+  process.env.ERROR_INCLUDE_STACK === 'true' && process.env.NODE_ENV !== 'production';
 
 // Simulated token validation
 const validateToken = (token: string): User | null => {
@@ -15,6 +31,12 @@ const validateToken = (token: string): User | null => {
   return userId ? users.find((u) => u.id === userId) || null : null;
 };
 
+// Products and orders (STORE_BACKEND=memory|prisma) - shared by every request
+const store = createStore();
+
+// Payments go through a fake gateway driven by test card numbers
+const payments = createFakePaymentGateway();
+
 const yoga = createYoga({
   schema,
   context: async ({ request }): Promise<GraphQLContext> => {
@@ -26,18 +48,22 @@ const yoga = createYoga({
       currentUser = validateToken(token);
     }
 
-    return { currentUser };
+    return { currentUser, store, payments };
   },
-  // Custom error masking - control what errors are exposed to clients
+  plugins: [
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+    // Retried mutations with the same Idempotency-Key header are replayed,
+    // not run twice - e.g. a createOrder retry doesn't take stock again
+    useIdempotency({ store: createIdempotencyStore() }),
+  ],
+  // Error masking - expected errors pass through, unexpected ones become
+  // INTERNAL_ERROR with an errorId that is logged alongside the full stack
   maskedErrors: {
-    maskError: (error, message, isDev) => {
-      // In development, show full errors
-      if (isDev) {
-        return error;
-      }
-      // In production, mask unexpected errors
-      return error;
-    },
+    errorMessage: 'An unexpected error occurred',
+    maskError: createMaskError({ includeStack: INCLUDE_STACK }),
   },
   graphiql: {
     title: 'GraphQL Error Handling Demo',
@@ -76,19 +102,24 @@ query NotFound {
 #   }
 # }
 
-# 4. Validation Error
+# 4. Unexpected Error (masked - look for the errorId in the server log)
+# query Unexpected {
+#   unexpectedError
+# }
+
+# 5. Validation Error
 # Add header: { "Authorization": "Bearer user-token" }
 # mutation ValidationError {
-#   createOrder(input: { productId: "1", quantity: -5 }) {
+#   createOrder(input: { lines: [{ productId: "1", quantity: -5 }] }) {
 #     success
 #     message
 #   }
 # }
 
-# 5. Insufficient Stock Error
+# 6. Insufficient Stock Error
 # Add header: { "Authorization": "Bearer user-token" }
 # mutation InsufficientStock {
-#   createOrder(input: { productId: "3", quantity: 1 }) {
+#   createOrder(input: { lines: [{ productId: "3", quantity: 1 }] }) {
 #     success
 #     message
 #   }
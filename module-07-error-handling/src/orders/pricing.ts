@@ -0,0 +1,8 @@
+import { Order } from '../types/index.js';
+
+// Prices are floats - round sums to whole cents
+export const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+export const orderTotal = (order: Order) => {
+  return roundPrice(order.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+};
@@ -0,0 +1,55 @@
+import { ConflictError, OrderCancelledError } from '../errors/index.js';
+import { OrderStatus } from '../types/index.js';
+
+// Allowed manual status changes. An order moves forward only - it can't go
+// back (delivered -> pending) or skip a step (pending -> shipped), and it can
+// only be cancelled before it ships. pending -> confirmed isn't listed: only
+// a captured payment confirms an order (assertPayable, recordPayment).
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['cancelled'],
+  confirmed: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_TRANSITIONS[from].includes(to);
+};
+
+// Throw if the transition isn't in the table
+export const assertTransition = (orderId: string, from: OrderStatus, to: OrderStatus) => {
+  if (canTransition(from, to)) {
+    return;
+  }
+
+  if (from === 'cancelled') {
+    throw new OrderCancelledError(orderId);
+  }
+
+  // Report statuses the way clients see them (OrderStatus enum values)
+  const name = (status: OrderStatus) => status.toUpperCase();
+
+  throw new ConflictError(`Cannot change order status from ${name(from)} to ${name(to)}`, {
+    orderId,
+    from: name(from),
+    to: name(to),
+    allowed: ORDER_TRANSITIONS[from].map(name),
+  });
+};
+
+// Throw unless the order can be paid - only pending orders can
+export const assertPayable = (orderId: string, status: OrderStatus) => {
+  if (status === 'pending') {
+    return;
+  }
+
+  if (status === 'cancelled') {
+    throw new OrderCancelledError(orderId);
+  }
+
+  throw new ConflictError(`Cannot pay for an order with status ${status.toUpperCase()}`, {
+    orderId,
+    status: status.toUpperCase(),
+  });
+};
@@ -0,0 +1,75 @@
+import { randomUUID } from 'node:crypto';
+import {
+  CaptureRequest,
+  CaptureResult,
+  PaymentGateway,
+  PaymentGatewayTimeoutError,
+} from './gateway.js';
+
+// Deterministic test cards
+export const TEST_CARDS = {
+  SUCCESS: '4242424242424242',
+  DECLINED: '4000000000000002',
+  INSUFFICIENT_FUNDS: '4000000000009995',
+  TIMEOUT: '4000000000000119',
+};
+
+const declines: Record<string, { declineCode: string; message: string }> = {
+  [TEST_CARDS.DECLINED]: { declineCode: 'card_declined', message: 'Your card was declined' },
+  [TEST_CARDS.INSUFFICIENT_FUNDS]: {
+    declineCode: 'insufficient_funds',
+    message: 'Your card has insufficient funds',
+  },
+};
+
+const TEST_CARD_NUMBERS = new Set(Object.values(TEST_CARDS));
+
+// In-memory gateway for development.
+//
+// Like a real provider it remembers results per idempotency key, so a retry
+// returns the original result instead of charging again. The TIMEOUT card is
+// charged but the first attempt doesn't get an answer in time - retrying with
+// the same key returns the captured payment. Refunded payment ids are kept in
+// `refunds`.
+export const createFakePaymentGateway = ({ timeoutMs = 1000 } = {}): PaymentGateway & {
+  refunds: ReadonlySet<string>;
+} => {
+  const results = new Map<string, CaptureResult>();
+  const refunds = new Set<string>();
+
+  return {
+    capture: async (request: CaptureRequest) => {
+      const previous = results.get(request.idempotencyKey);
+      if (previous) {
+        return previous;
+      }
+
+      const decline = TEST_CARD_NUMBERS.has(request.cardNumber)
+        ? declines[request.cardNumber]
+        : { declineCode: 'invalid_number', message: 'Use one of the test card numbers' };
+      const result: CaptureResult = decline
+        ? { status: 'declined', ...decline }
+        : {
+            status: 'captured',
+            paymentId: `pay_${randomUUID()}`,
+            amount: request.amount,
+            cardLast4: request.cardNumber.slice(-4),
+          };
+
+      results.set(request.idempotencyKey, result);
+
+      if (request.cardNumber === TEST_CARDS.TIMEOUT) {
+        await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+        throw new PaymentGatewayTimeoutError(timeoutMs);
+      }
+
+      return result;
+    },
+
+    refund: async (paymentId: string) => {
+      refunds.add(paymentId);
+    },
+
+    refunds,
+  };
+};
@@ -0,0 +1,31 @@
+// Payment gateway abstraction - the resolvers only talk to this interface,
+// so the fake gateway can be swapped for a real provider.
+
+export interface CaptureRequest {
+  amount: number;
+  currency: string;
+  cardNumber: string;
+  // Same key -> same charge. Retrying a request must never charge twice.
+  idempotencyKey: string;
+}
+
+export type CaptureResult =
+  | { status: 'captured'; paymentId: string; amount: number; cardLast4: string }
+  | { status: 'declined'; declineCode: string; message: string };
+
+export interface PaymentGateway {
+  // Authorize and capture in one step
+  capture(request: CaptureRequest): Promise<CaptureResult>;
+  // Give a captured payment back (an order that couldn't be confirmed, or a
+  // cancelled one). Refunding the same payment again does nothing.
+  refund(paymentId: string): Promise<void>;
+}
+
+// The gateway didn't answer in time - the charge may or may not have gone
+// through, so the client should retry with the same idempotency key
+export class PaymentGatewayTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Payment gateway did not respond within ${timeoutMs}ms`);
+    this.name = 'PaymentGatewayTimeoutError';
+  }
+}
@@ -0,0 +1,13 @@
+import { getPrisma } from '../db/prisma.js';
+import { StoreRepository } from '../types/index.js';
+import { createMemoryStore } from './memory.js';
+import { createPrismaStore } from './prisma.js';
+
+// Storage backend (override via environment variable)
+// memory - in-process arrays seeded from src/data
+// prisma - SQLite database via Prisma (npm run db:push && npm run db:seed)
+const STORE_BACKEND = (process.env.STORE_BACKEND || 'memory') as 'memory' | 'prisma';
+
+export const createStore = (): StoreRepository => {
+  return STORE_BACKEND === 'prisma' ? createPrismaStore(getPrisma()) : createMemoryStore();
+};
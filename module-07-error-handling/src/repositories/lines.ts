@@ -0,0 +1,10 @@
+import { OrderLineInput } from '../types/index.js';
+
+// Add up quantities of lines for the same product
+export const mergeLines = (lines: OrderLineInput[]): OrderLineInput[] => {
+  const quantities = new Map<string, number>();
+  for (const { productId, quantity } of lines) {
+    quantities.set(productId, (quantities.get(productId) ?? 0) + quantity);
+  }
+  return [...quantities].map(([productId, quantity]) => ({ productId, quantity }));
+};
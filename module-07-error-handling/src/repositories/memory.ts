@@ -0,0 +1,161 @@
+import { randomUUID } from 'node:crypto';
+import { products as seedProducts, orders as seedOrders } from '../data/index.js';
+import { InsufficientStockError, NotFoundError } from '../errors/index.js';
+import {
+  Order,
+  OrderStatus,
+  Product,
+  StockReservation,
+  StoreRepository,
+} from '../types/index.js';
+import { mergeLines } from './lines.js';
+
+// In-memory store.
+//
+// Every check-and-update below runs synchronously (no await between reading
+// stock and writing it), so on Node's single thread concurrent requests can't
+// interleave inside one and oversell.
+export const createMemoryStore = (): StoreRepository => {
+  const products = new Map(seedProducts.map((product) => [product.id, { ...product }]));
+  const orders = new Map(
+    seedOrders.map((order) => [
+      order.id,
+      {
+        ...order,
+        lines: order.lines.map((line) => ({ ...line })),
+        history: order.history.map((change) => ({ ...change })),
+        payment: order.payment && { ...order.payment },
+      },
+    ])
+  );
+  const held = new Map<string, StockReservation>();
+
+  let nextProductId = products.size + 1;
+  let nextOrderId = orders.size + 1;
+
+  const returnStock = (lines: StockReservation['lines']) => {
+    for (const line of lines) {
+      const product = products.get(line.productId);
+      if (product) {
+        product.stock += line.quantity;
+      }
+    }
+  };
+
+  const takeReservation = (reservation: StockReservation): StockReservation => {
+    const current = held.get(reservation.id);
+    if (!current) {
+      throw new Error(`Reservation ${reservation.id} is not held`);
+    }
+    held.delete(reservation.id);
+    return current;
+  };
+
+  return {
+    listProducts: async () => [...products.values()],
+
+    findProduct: async (id) => products.get(id) ?? null,
+
+    findProductByName: async (name) => {
+      const wanted = name.trim().toLowerCase();
+      return [...products.values()].find((p) => p.name.toLowerCase() === wanted) ?? null;
+    },
+
+    createProduct: async (input) => {
+      const product: Product = { id: String(nextProductId++), ...input };
+      products.set(product.id, product);
+      return product;
+    },
+
+    listOrders: async () => [...orders.values()],
+
+    findOrder: async (id) => orders.get(id) ?? null,
+
+    reserveStock: async (lines) => {
+      const merged = mergeLines(lines);
+
+      // Check every line before touching any stock - all or nothing
+      for (const { productId, quantity } of merged) {
+        const product = products.get(productId);
+        if (!product) {
+          throw new NotFoundError('Product', productId);
+        }
+        if (product.stock < quantity) {
+          throw new InsufficientStockError(productId, quantity, product.stock);
+        }
+      }
+
+      const reservation: StockReservation = {
+        id: randomUUID(),
+        lines: merged.map(({ productId, quantity }) => {
+          const product = products.get(productId)!;
+          product.stock -= quantity;
+          return { productId, quantity, unitPrice: product.price };
+        }),
+      };
+
+      held.set(reservation.id, reservation);
+      return reservation;
+    },
+
+    commitReservation: async (reservation, userId) => {
+      const { lines } = takeReservation(reservation);
+      const createdAt = new Date().toISOString();
+
+      const order: Order = {
+        id: String(nextOrderId++),
+        userId,
+        lines,
+        status: 'pending',
+        history: [{ from: null, to: 'pending', changedAt: createdAt, changedBy: userId }],
+        payment: null,
+        createdAt,
+      };
+
+      orders.set(order.id, order);
+      return order;
+    },
+
+    releaseReservation: async (reservation) => {
+      returnStock(takeReservation(reservation).lines);
+    },
+
+    setOrderStatus: async (id, expected: OrderStatus, next: OrderStatus, changedBy) => {
+      const order = orders.get(id);
+      if (!order || order.status !== expected) {
+        return null;
+      }
+
+      order.status = next;
+      order.history.push({
+        from: expected,
+        to: next,
+        changedAt: new Date().toISOString(),
+        changedBy,
+      });
+      if (next === 'cancelled') {
+        returnStock(order.lines);
+      }
+
+      return order;
+    },
+
+    recordPayment: async (id, payment, changedBy) => {
+      const order = orders.get(id);
+      if (!order || order.status !== 'pending') {
+        return null;
+      }
+
+      order.payment = payment;
+      order.status = 'confirmed';
+      order.history.push({
+        from: 'pending',
+        to: 'confirmed',
+        changedAt: payment.capturedAt,
+        changedBy,
+      });
+
+      return order;
+    },
+  };
+};
@@ -0,0 +1,230 @@
+import { randomUUID } from 'node:crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InsufficientStockError, NotFoundError } from '../errors/index.js';
+import {
+  Order,
+  OrderLine,
+  OrderStatus,
+  Product,
+  StockReservation,
+  StoreRepository,
+} from '../types/index.js';
+import { mergeLines } from './lines.js';
+
+// Database rows as returned by Prisma
+interface OrderRow {
+  id: string;
+  userId: string;
+  status: string;
+  createdAt: Date;
+  lines: OrderLine[];
+  history: Array<{
+    from: string | null;
+    to: string;
+    changedAt: Date;
+    changedBy: string | null;
+  }>;
+  payment: {
+    id: string;
+    amount: number;
+    cardLast4: string;
+    idempotencyKey: string;
+    capturedAt: Date;
+  } | null;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const orderInclude = {
+  lines: { select: { productId: true, quantity: true, unitPrice: true } },
+  history: {
+    select: { from: true, to: true, changedAt: true, changedBy: true },
+    orderBy: { changedAt: 'asc' as const },
+  },
+  payment: true,
+};
+
+const toOrder = (row: OrderRow): Order => ({
+  id: row.id,
+  userId: row.userId,
+  lines: row.lines,
+  status: row.status as OrderStatus,
+  history: row.history.map((change) => ({
+    from: change.from as OrderStatus | null,
+    to: change.to as OrderStatus,
+    changedAt: change.changedAt.toISOString(),
+    changedBy: change.changedBy,
+  })),
+  payment: row.payment && {
+    ...row.payment,
+    capturedAt: row.payment.capturedAt.toISOString(),
+  },
+  createdAt: row.createdAt.toISOString(),
+});
+
+// Prisma (SQLite) store.
+//
+// Stock is only ever changed with a conditional update inside a transaction
+// (`stock >= quantity` in the WHERE clause), so two requests racing for the
+// last item can't both succeed - the database decides, not a read in Node.
+export const createPrismaStore = (prisma: PrismaClient): StoreRepository => {
+  const held = new Map<string, StockReservation>();
+
+  const takeReservation = (reservation: StockReservation): StockReservation => {
+    const current = held.get(reservation.id);
+    if (!current) {
+      throw new Error(`Reservation ${reservation.id} is not held`);
+    }
+    held.delete(reservation.id);
+    return current;
+  };
+
+  const returnStock = async (tx: Tx, lines: OrderLine[]) => {
+    for (const line of lines) {
+      await tx.product.update({
+        where: { id: line.productId },
+        data: { stock: { increment: line.quantity } },
+      });
+    }
+  };
+
+  return {
+    listProducts: () => prisma.product.findMany({ orderBy: { name: 'asc' } }),
+
+    findProduct: (id) => prisma.product.findUnique({ where: { id } }),
+
+    findProductByName: async (name) => {
+      const products: Product[] = await prisma.product.findMany();
+      const wanted = name.trim().toLowerCase();
+      return products.find((p) => p.name.toLowerCase() === wanted) ?? null;
+    },
+
+    createProduct: (input) => prisma.product.create({ data: input }),
+
+    listOrders: async () => {
+      const rows: OrderRow[] = await prisma.order.findMany({
+        include: orderInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+      return rows.map(toOrder);
+    },
+
+    findOrder: async (id) => {
+      const row: OrderRow | null = await prisma.order.findUnique({
+        where: { id },
+        include: orderInclude,
+      });
+      return row ? toOrder(row) : null;
+    },
+
+    reserveStock: async (lines) => {
+      const merged = mergeLines(lines);
+
+      // Throwing inside the transaction rolls back the lines already taken
+      const reserved: OrderLine[] = await prisma.$transaction(async (tx: Tx) => {
+        const result: OrderLine[] = [];
+
+        for (const { productId, quantity } of merged) {
+          const { count } = await tx.product.updateMany({
+            where: { id: productId, stock: { gte: quantity } },
+            data: { stock: { decrement: quantity } },
+          });
+
+          const product: Product | null = await tx.product.findUnique({
+            where: { id: productId },
+          });
+
+          if (!product) {
+            throw new NotFoundError('Product', productId);
+          }
+          if (count === 0) {
+            throw new InsufficientStockError(productId, quantity, product.stock);
+          }
+
+          result.push({ productId, quantity, unitPrice: product.price });
+        }
+
+        return result;
+      });
+
+      const reservation: StockReservation = { id: randomUUID(), lines: reserved };
+      held.set(reservation.id, reservation);
+      return reservation;
+    },
+
+    commitReservation: async (reservation, userId) => {
+      const { lines } = takeReservation(reservation);
+
+      const row: OrderRow = await prisma.order.create({
+        data: {
+          userId,
+          status: 'pending',
+          lines: { create: lines },
+          history: { create: { from: null, to: 'pending', changedBy: userId } },
+        },
+        include: orderInclude,
+      });
+
+      return toOrder(row);
+    },
+
+    releaseReservation: async (reservation) => {
+      const { lines } = takeReservation(reservation);
+      await prisma.$transaction((tx: Tx) => returnStock(tx, lines));
+    },
+
+    setOrderStatus: async (id, expected, next, changedBy) => {
+      const row: OrderRow | null = await prisma.$transaction(async (tx: Tx) => {
+        const { count } = await tx.order.updateMany({
+          where: { id, status: expected },
+          data: { status: next },
+        });
+
+        if (count === 0) {
+          return null;
+        }
+
+        await tx.orderStatusChange.create({
+          data: { orderId: id, from: expected, to: next, changedBy },
+        });
+
+        const order: OrderRow = await tx.order.findUniqueOrThrow({
+          where: { id },
+          include: orderInclude,
+        });
+
+        if (next === 'cancelled') {
+          await returnStock(tx, order.lines);
+        }
+
+        return order;
+      });
+
+      return row ? toOrder(row) : null;
+    },
+
+    recordPayment: async (id, payment, changedBy) => {
+      const row: OrderRow | null = await prisma.$transaction(async (tx: Tx) => {
+        const { count } = await tx.order.updateMany({
+          where: { id, status: 'pending' },
+          data: { status: 'confirmed' },
+        });
+
+        if (count === 0) {
+          return null;
+        }
+
+        const capturedAt = new Date(payment.capturedAt);
+
+        await tx.payment.create({ data: { ...payment, capturedAt, orderId: id } });
+        await tx.orderStatusChange.create({
+          data: { orderId: id, from: 'pending', to: 'confirmed', changedAt: capturedAt, changedBy },
+        });
+
+        return tx.order.findUniqueOrThrow({ where: { id }, include: orderInclude });
+      });
+
+      return row ? toOrder(row) : null;
+    },
+  };
+};
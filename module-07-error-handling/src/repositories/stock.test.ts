@@ -0,0 +1,109 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { PrismaClient } from '@prisma/client';
+import { Mutation } from '../resolvers/mutation.js';
+import { users } from '../data/index.js';
+import { InsufficientStockError } from '../errors/index.js';
+import { createFakePaymentGateway } from '../payments/fake.js';
+import { GraphQLContext, OrderLineInput, StoreRepository } from '../types/index.js';
+import { createMemoryStore } from './memory.js';
+import { createPrismaStore } from './prisma.js';
+
+const ORDERS = 10;
+
+// Place ORDERS orders for `lines` at the same time. Every order either gets
+// all of its stock or fails with InsufficientStockError.
+const placeConcurrently = async (store: StoreRepository, lines: OrderLineInput[]) => {
+  const context: GraphQLContext = {
+    currentUser: users[1],
+    store,
+    payments: createFakePaymentGateway(),
+  };
+
+  const results = await Promise.allSettled(
+    Array.from({ length: ORDERS }, () =>
+      Mutation.createOrder({}, { input: { lines } }, context)
+    )
+  );
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      assert.ok(result.reason instanceof InsufficientStockError, String(result.reason));
+    }
+  }
+
+  return results.filter((result) => result.status === 'fulfilled').length;
+};
+
+// Runs the same checks against each store implementation
+const describeStore = (
+  name: string,
+  createStore: () => StoreRepository,
+  cleanUp: (productIds: string[]) => Promise<void> = async () => {}
+) => {
+  describe(name, () => {
+    const store = createStore();
+    const productIds: string[] = [];
+
+    const createProduct = async (stock: number) => {
+      const product = await store.createProduct({ name: `Test ${randomUUID()}`, price: 10, stock });
+      productIds.push(product.id);
+      return product;
+    };
+
+    after(() => cleanUp(productIds));
+
+    it('never sells more than the stock to concurrent orders', async () => {
+      const product = await createProduct(3);
+
+      const placed = await placeConcurrently(store, [{ productId: product.id, quantity: 1 }]);
+
+      assert.equal(placed, 3);
+      assert.equal((await store.findProduct(product.id))?.stock, 0);
+    });
+
+    it('takes every line of a multi-line order or none of them', async () => {
+      const laptop = await createProduct(4);
+      const mouse = await createProduct(10);
+
+      const placed = await placeConcurrently(store, [
+        { productId: laptop.id, quantity: 2 },
+        { productId: mouse.id, quantity: 1 },
+      ]);
+
+      // Laptops run out after two orders - the mice of the failed ones stay
+      assert.equal(placed, 2);
+      assert.equal((await store.findProduct(laptop.id))?.stock, 0);
+      assert.equal((await store.findProduct(mouse.id))?.stock, 8);
+    });
+
+    it('returns stock when an order is cancelled', async () => {
+      const product = await createProduct(2);
+      const reservation = await store.reserveStock([{ productId: product.id, quantity: 2 }]);
+      const order = await store.commitReservation(reservation, users[1].id);
+
+      await store.setOrderStatus(order.id, 'pending', 'cancelled', users[1].id);
+
+      assert.equal((await store.findProduct(product.id))?.stock, 2);
+    });
+  });
+};
+
+describeStore('memory store', createMemoryStore);
+
+// Runs against the database in prisma/dev.db (npm run db:push)
+let prisma: PrismaClient;
+
+describeStore(
+  'Prisma store',
+  () => {
+    prisma = new PrismaClient();
+    return createPrismaStore(prisma);
+  },
+  async (productIds) => {
+    await prisma.order.deleteMany({ where: { lines: { some: { productId: { in: productIds } } } } });
+    await prisma.product.deleteMany({ where: { id: { in: productIds } } });
+    await prisma.$disconnect();
+  }
+);
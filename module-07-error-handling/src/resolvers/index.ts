@@ -1,9 +1,17 @@
 import { Query } from './query.js';
 import { Mutation } from './mutation.js';
-import { Order_Resolver } from './types.js';
+import {
+  Order_Resolver,
+  OrderLine_Resolver,
+  OrderStatus_Resolver,
+  OrderStatusChange_Resolver,
+} from './types.js';
 
 export const resolvers = {
   Query,
   Mutation,
   Order: Order_Resolver,
+  OrderLine: OrderLine_Resolver,
+  OrderStatus: OrderStatus_Resolver,
+  OrderStatusChange: OrderStatusChange_Resolver,
 };
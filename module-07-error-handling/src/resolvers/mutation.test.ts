@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { Mutation } from './mutation.js';
+import { users } from '../data/index.js';
+import { ConflictError } from '../errors/index.js';
+import { TEST_CARDS, createFakePaymentGateway } from '../payments/fake.js';
+import { createMemoryStore } from '../repositories/memory.js';
+import { GraphQLContext } from '../types/index.js';
+
+// A memory store with one product, a fake gateway, and contexts for the
+// customer (users[1]) and the admin (users[0])
+const setup = async () => {
+  const store = createMemoryStore();
+  const payments = createFakePaymentGateway();
+  const product = await store.createProduct({ name: `Test ${randomUUID()}`, price: 10, stock: 5 });
+
+  const customer: GraphQLContext = { currentUser: users[1], store, payments };
+  const admin: GraphQLContext = { currentUser: users[0], store, payments };
+
+  const { order } = await Mutation.createOrder(
+    {},
+    { input: { lines: [{ productId: product.id, quantity: 2 }] } },
+    customer
+  );
+
+  return { store, payments, product, order, customer, admin };
+};
+
+describe('order lifecycle', () => {
+  it('refunds the payment when a paid order is cancelled', async () => {
+    const { store, payments, product, order, customer } = await setup();
+
+    const paid = await Mutation.payOrder(
+      {},
+      { id: order.id, input: { cardNumber: TEST_CARDS.SUCCESS, idempotencyKey: 'pay-1' } },
+      customer
+    );
+    assert.equal(paid.order.status, 'confirmed');
+    const paymentId = paid.order.payment!.id;
+
+    const cancelled = await Mutation.cancelOrder({}, { id: order.id }, customer);
+
+    assert.equal(cancelled.order.status, 'cancelled');
+    assert.ok(payments.refunds.has(paymentId));
+    assert.equal((await store.findProduct(product.id))?.stock, 5);
+  });
+
+  it('cancels an unpaid order without a refund', async () => {
+    const { payments, order, customer } = await setup();
+
+    const cancelled = await Mutation.cancelOrder({}, { id: order.id }, customer);
+
+    assert.equal(cancelled.order.status, 'cancelled');
+    assert.equal(payments.refunds.size, 0);
+  });
+
+  it('does not let an admin confirm an unpaid order', async () => {
+    const { store, order, admin } = await setup();
+
+    await assert.rejects(
+      Mutation.updateOrderStatus({}, { id: order.id, status: 'confirmed' }, admin),
+      ConflictError
+    );
+    assert.equal((await store.findOrder(order.id))?.status, 'pending');
+  });
+});
@@ -1,19 +1,26 @@
-import { users, products, orders, generateOrderId } from '../data/index.js';
-import { GraphQLContext, CreateOrderInput } from '../types/index.js';
+import {
+  GraphQLContext,
+  CreateOrderInput,
+  OrderStatus,
+  Payment,
+  PaymentInput,
+} from '../types/index.js';
+import { assertPayable, assertTransition } from '../orders/status.js';
+import { orderTotal } from '../orders/pricing.js';
+import { CaptureResult, PaymentGatewayTimeoutError } from '../payments/gateway.js';
 import {
   AuthenticationError,
   NotFoundError,
   ValidationError,
-  InvalidInputError,
-  InsufficientStockError,
-  OrderCancelledError,
   ConflictError,
+  PaymentFailedError,
   InternalError,
 } from '../errors/index.js';
 
 export const Mutation = {
-  // Create order with various validations
-  createOrder: (
+  // Create order - stock for every line is reserved atomically, then the
+  // order is written; if writing fails the reservation is released
+  createOrder: async (
     _: unknown,
     args: { input: CreateOrderInput },
     context: GraphQLContext
@@ -23,51 +30,123 @@ export const Mutation = {
       throw new AuthenticationError();
     }
 
-    const { productId, quantity } = args.input;
+    // Quantity range is checked by @constraint before we get here
+    const { lines } = args.input;
 
-    // Validate quantity
-    if (quantity <= 0) {
-      throw new ValidationError('Quantity must be greater than 0', 'quantity', quantity);
+    if (lines.length === 0) {
+      throw new ValidationError('An order needs at least one line', 'input.lines', lines);
     }
 
-    if (quantity > 100) {
-      throw new ValidationError('Maximum quantity per order is 100', 'quantity', quantity);
+    // Throws NotFoundError / InsufficientStockError without taking any stock
+    const reservation = await context.store.reserveStock(lines);
+
+    try {
+      const order = await context.store.commitReservation(reservation, context.currentUser.id);
+
+      return {
+        success: true,
+        message: 'Order created successfully',
+        order,
+      };
+    } catch (error) {
+      await context.store.releaseReservation(reservation);
+      throw error;
     }
+  },
 
-    // Find product
-    const product = products.find((p) => p.id === productId);
-    if (!product) {
-      throw new NotFoundError('Product', productId);
+  // Pay for an order - it is confirmed only after the gateway has captured
+  // the payment. Retrying with the same idempotency key never charges twice.
+  payOrder: async (
+    _: unknown,
+    args: { id: string; input: PaymentInput },
+    context: GraphQLContext
+  ) => {
+    if (!context.currentUser) {
+      throw new AuthenticationError();
     }
 
-    // Check stock
-    if (product.stock < quantity) {
-      throw new InsufficientStockError(productId, quantity, product.stock);
+    const { cardNumber, idempotencyKey } = args.input;
+
+    const order = await context.store.findOrder(args.id);
+    if (!order) {
+      throw new NotFoundError('Order', args.id);
     }
 
-    // Create order
-    const order = {
-      id: generateOrderId(),
-      userId: context.currentUser.id,
-      productId,
-      quantity,
-      status: 'pending' as const,
-      createdAt: new Date().toISOString(),
-    };
+    if (order.userId !== context.currentUser.id && context.currentUser.role !== 'admin') {
+      throw new AuthenticationError('You can only pay for your own orders');
+    }
 
-    // Update stock
-    product.stock -= quantity;
-    orders.push(order);
+    // Retry of a payment that already went through
+    if (order.payment) {
+      if (order.payment.idempotencyKey === idempotencyKey) {
+        return { success: true, message: 'Order already paid', order };
+      }
+      throw new ConflictError('Order has already been paid', {
+        orderId: order.id,
+        paymentId: order.payment.id,
+      });
+    }
 
-    return {
-      success: true,
-      message: 'Order created successfully',
-      order,
+    // Only pending orders can be paid (ConflictError / OrderCancelledError)
+    assertPayable(order.id, order.status);
+
+    let result: CaptureResult;
+    try {
+      result = await context.payments.capture({
+        amount: orderTotal(order),
+        currency: 'USD',
+        cardNumber,
+        // Scoped to the order, so a key reused on another order can't
+        // replay that order's payment here
+        idempotencyKey: `${order.id}:${idempotencyKey}`,
+      });
+    } catch (error) {
+      if (error instanceof PaymentGatewayTimeoutError) {
+        throw new PaymentFailedError('Payment gateway timed out', { retryable: true });
+      }
+      throw error;
+    }
+
+    if (result.status === 'declined') {
+      throw new PaymentFailedError(result.message, {
+        declineCode: result.declineCode,
+        retryable: false,
+      });
+    }
+
+    const payment: Payment = {
+      id: result.paymentId,
+      amount: result.amount,
+      cardLast4: result.cardLast4,
+      idempotencyKey,
+      capturedAt: new Date().toISOString(),
     };
+
+    const confirmed = await context.store.recordPayment(
+      order.id,
+      payment,
+      context.currentUser.id
+    );
+    if (confirmed) {
+      return { success: true, message: 'Payment captured, order confirmed', order: confirmed };
+    }
+
+    // The order changed while we were charging - either a concurrent retry
+    // already recorded this same payment, or the order was cancelled
+    const current = await context.store.findOrder(order.id);
+    if (current?.payment?.id === payment.id) {
+      return { success: true, message: 'Order already paid', order: current };
+    }
+
+    await context.payments.refund(payment.id);
+    throw new ConflictError('Order changed while the payment was processed - payment refunded', {
+      orderId: order.id,
+      currentStatus: current?.status.toUpperCase(),
+    });
   },
 
   // Cancel order
-  cancelOrder: (
+  cancelOrder: async (
     _: unknown,
     args: { id: string },
     context: GraphQLContext
@@ -76,7 +155,7 @@ export const Mutation = {
       throw new AuthenticationError();
     }
 
-    const order = orders.find((o) => o.id === args.id);
+    const order = await context.store.findOrder(args.id);
     if (!order) {
       throw new NotFoundError('Order', args.id);
     }
@@ -86,38 +165,42 @@ export const Mutation = {
       throw new AuthenticationError('You can only cancel your own orders');
     }
 
-    // Check if already cancelled
-    if (order.status === 'cancelled') {
-      throw new OrderCancelledError(args.id);
+    // Cancelled or delivered/shipped orders can't be cancelled
+    assertTransition(order.id, order.status, 'cancelled');
+
+    // A paid order gets its money back first. Refunds are idempotent per
+    // payment, so a retried or concurrent cancel can't refund twice.
+    if (order.payment) {
+      await context.payments.refund(order.payment.id);
     }
 
-    // Check if can be cancelled
-    if (order.status === 'delivered') {
-      throw new ConflictError('Cannot cancel a delivered order', {
+    // Cancelling returns the stock - only if nobody changed the order since
+    // we read it, so two concurrent cancels can't restore stock twice
+    const cancelled = await context.store.setOrderStatus(
+      order.id,
+      order.status,
+      'cancelled',
+      context.currentUser.id
+    );
+    if (!cancelled) {
+      throw new ConflictError('Order was modified concurrently, please retry', {
         orderId: args.id,
-        currentStatus: order.status,
       });
     }
 
-    // Restore stock
-    const product = products.find((p) => p.id === order.productId);
-    if (product) {
-      product.stock += order.quantity;
-    }
-
-    order.status = 'cancelled';
-
     return {
       success: true,
-      message: 'Order cancelled successfully',
-      order,
+      message: order.payment
+        ? 'Order cancelled, payment refunded'
+        : 'Order cancelled successfully',
+      order: cancelled,
     };
   },
 
-  // Update order status
-  updateOrderStatus: (
+  // Update order status - only transitions in ORDER_TRANSITIONS are allowed
+  updateOrderStatus: async (
     _: unknown,
-    args: { id: string; status: string },
+    args: { id: string; status: OrderStatus },
     context: GraphQLContext
   ) => {
     if (!context.currentUser) {
@@ -128,30 +211,30 @@ export const Mutation = {
       throw new AuthenticationError('Only admins can update order status');
     }
 
-    const order = orders.find((o) => o.id === args.id);
+    const order = await context.store.findOrder(args.id);
     if (!order) {
       throw new NotFoundError('Order', args.id);
     }
 
-    const validStatuses = ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'];
-    if (!validStatuses.includes(args.status)) {
-      throw new ValidationError(
-        `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
-        'status',
-        args.status
-      );
-    }
+    // ConflictError with from/to (or OrderCancelledError)
+    assertTransition(order.id, order.status, args.status);
 
-    if (order.status === 'cancelled') {
-      throw new OrderCancelledError(args.id);
+    const updated = await context.store.setOrderStatus(
+      order.id,
+      order.status,
+      args.status,
+      context.currentUser.id
+    );
+    if (!updated) {
+      throw new ConflictError('Order was modified concurrently, please retry', {
+        orderId: args.id,
+      });
     }
 
-    order.status = args.status as typeof order.status;
-
     return {
       success: true,
       message: `Order status updated to ${args.status}`,
-      order,
+      order: updated,
     };
   },
 
@@ -160,8 +243,8 @@ export const Mutation = {
     throw new InternalError('This mutation always fails for demonstration purposes');
   },
 
-  // Create product with multiple validations
-  createProduct: (
+  // Create product (multiple validations declared with @constraint)
+  createProduct: async (
     _: unknown,
     args: { name: string; price: number; stock: number },
     context: GraphQLContext
@@ -174,48 +257,19 @@ export const Mutation = {
       throw new AuthenticationError('Only admins can create products');
     }
 
-    const errors: Array<{ field: string; message: string }> = [];
-
-    // Validate name
-    if (!args.name || args.name.trim().length < 2) {
-      errors.push({ field: 'name', message: 'Name must be at least 2 characters' });
-    }
-
-    // Validate price
-    if (args.price <= 0) {
-      errors.push({ field: 'price', message: 'Price must be greater than 0' });
-    }
-
-    if (args.price > 1000000) {
-      errors.push({ field: 'price', message: 'Price cannot exceed 1,000,000' });
-    }
-
-    // Validate stock
-    if (args.stock < 0) {
-      errors.push({ field: 'stock', message: 'Stock cannot be negative' });
-    }
-
-    // If there are validation errors, throw them all at once
-    if (errors.length > 0) {
-      throw new InvalidInputError(errors);
-    }
+    // name, price and stock are validated by @constraint before we get here -
+    // all violations are reported together as an InvalidInputError
 
     // Check for duplicate name
-    const existing = products.find(
-      (p) => p.name.toLowerCase() === args.name.toLowerCase()
-    );
+    const existing = await context.store.findProductByName(args.name);
     if (existing) {
       throw new ConflictError(`Product with name "${args.name}" already exists`);
     }
 
-    const product = {
-      id: String(products.length + 1),
+    return context.store.createProduct({
       name: args.name.trim(),
       price: args.price,
       stock: args.stock,
-    };
-
-    products.push(product);
-    return product;
+    });
   },
 };
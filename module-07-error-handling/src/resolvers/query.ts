@@ -1,4 +1,4 @@
-import { users, products, orders } from '../data/index.js';
+import { users } from '../data/index.js';
 import { GraphQLContext } from '../types/index.js';
 import {
   AuthenticationError,
@@ -15,16 +15,20 @@ export const Query = {
     return users.find((u) => u.id === args.id) || null;
   },
 
-  products: () => products,
+  products: (_: unknown, __: unknown, context: GraphQLContext) => {
+    return context.store.listProducts();
+  },
 
-  product: (_: unknown, args: { id: string }) => {
-    return products.find((p) => p.id === args.id) || null;
+  product: (_: unknown, args: { id: string }, context: GraphQLContext) => {
+    return context.store.findProduct(args.id);
   },
 
-  orders: () => orders,
+  orders: (_: unknown, __: unknown, context: GraphQLContext) => {
+    return context.store.listOrders();
+  },
 
-  order: (_: unknown, args: { id: string }) => {
-    return orders.find((o) => o.id === args.id) || null;
+  order: (_: unknown, args: { id: string }, context: GraphQLContext) => {
+    return context.store.findOrder(args.id);
   },
 
   // Query that throws NotFoundError
@@ -37,8 +41,8 @@ export const Query = {
   },
 
   // Query that checks stock
-  productWithStock: (_: unknown, args: { id: string }) => {
-    const product = products.find((p) => p.id === args.id);
+  productWithStock: async (_: unknown, args: { id: string }, context: GraphQLContext) => {
+    const product = await context.store.findProduct(args.id);
     if (!product) {
       throw new NotFoundError('Product', args.id);
     }
@@ -76,6 +80,13 @@ export const Query = {
     return 'Success! You got lucky.';
   },
 
+  // Simulates a programming error - a plain TypeError, not a BaseError, so
+  // the masking policy hides it behind INTERNAL_ERROR + errorId
+  unexpectedError: () => {
+    const config = undefined as unknown as { featureFlags: string[] };
+    return config.featureFlags.join(', ');
+  },
+
   // Protected query - requires authentication
   me: (_: unknown, __: unknown, context: GraphQLContext) => {
     if (!context.currentUser) {
@@ -85,13 +96,17 @@ export const Query = {
   },
 
   // Admin only query
-  adminStats: (_: unknown, __: unknown, context: GraphQLContext) => {
+  adminStats: async (_: unknown, __: unknown, context: GraphQLContext) => {
     if (!context.currentUser) {
       throw new AuthenticationError();
     }
     if (context.currentUser.role !== 'admin') {
       throw new InsufficientPermissionsError('admin');
     }
+    const [products, orders] = await Promise.all([
+      context.store.listProducts(),
+      context.store.listOrders(),
+    ]);
     return `Total users: ${users.length}, Products: ${products.length}, Orders: ${orders.length}`;
   },
 };
@@ -1,12 +1,39 @@
-import { users, products } from '../data/index.js';
-import { Order } from '../types/index.js';
+import { users } from '../data/index.js';
+import { GraphQLContext, Order, OrderLine, OrderStatusChange } from '../types/index.js';
+import { orderTotal, roundPrice } from '../orders/pricing.js';
 
 // Field resolvers for Order type
 export const Order_Resolver = {
   user: (parent: Order) => {
     return users.find((u) => u.id === parent.userId);
   },
-  product: (parent: Order) => {
-    return products.find((p) => p.id === parent.productId);
+  total: (parent: Order) => {
+    return orderTotal(parent);
   },
 };
+
+// Field resolvers for OrderLine type
+export const OrderLine_Resolver = {
+  product: (parent: OrderLine, _: unknown, context: GraphQLContext) => {
+    return context.store.findProduct(parent.productId);
+  },
+  subtotal: (parent: OrderLine) => {
+    return roundPrice(parent.unitPrice * parent.quantity);
+  },
+};
+
+// Field resolvers for OrderStatusChange type
+export const OrderStatusChange_Resolver = {
+  changedBy: (parent: OrderStatusChange) => {
+    return users.find((u) => u.id === parent.changedBy) ?? null;
+  },
+};
+
+// OrderStatus enum - internal values stay lowercase
+export const OrderStatus_Resolver = {
+  PENDING: 'pending',
+  CONFIRMED: 'confirmed',
+  SHIPPED: 'shipped',
+  DELIVERED: 'delivered',
+  CANCELLED: 'cancelled',
+};
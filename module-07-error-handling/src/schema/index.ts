@@ -1,8 +1,16 @@
 import { createSchema } from 'graphql-yoga';
 import { typeDefs } from './typeDefs.js';
 import { resolvers } from '../resolvers/index.js';
+import {
+  constraintDirectiveTypeDefs,
+  constraintDirectiveTransformer,
+} from '../directives/constraint.js';
 
-export const schema = createSchema({
-  typeDefs,
-  resolvers,
-});
+// Input validation is declared in the SDL (@constraint) and enforced by
+// wrapping resolvers after the schema is built
+export const schema = constraintDirectiveTransformer(
+  createSchema({
+    typeDefs: [constraintDirectiveTypeDefs, typeDefs],
+    resolvers,
+  })
+);
@@ -15,20 +15,65 @@ export const typeDefs = /* GraphQL */ `
     stock: Int!
   }
 
+  # One product on an order
+  type OrderLine {
+    product: Product!
+    quantity: Int!
+    unitPrice: Float!
+    subtotal: Float!
+  }
+
+  # Order lifecycle - see ORDER_TRANSITIONS for the allowed changes
+  enum OrderStatus {
+    PENDING
+    CONFIRMED
+    SHIPPED
+    DELIVERED
+    CANCELLED
+  }
+
+  # One status change (the first entry is the order being placed)
+  type OrderStatusChange {
+    from: OrderStatus
+    to: OrderStatus!
+    changedAt: String!
+    changedBy: User
+  }
+
+  # Captured payment of an order
+  type Payment {
+    id: ID!
+    amount: Float!
+    cardLast4: String!
+    capturedAt: String!
+  }
+
   # Order type
   type Order {
     id: ID!
     user: User!
-    product: Product!
-    quantity: Int!
-    status: String!
+    lines: [OrderLine!]!
+    total: Float!
+    status: OrderStatus!
+    history: [OrderStatusChange!]!
+    payment: Payment
     createdAt: String!
   }
 
-  # Input types
-  input CreateOrderInput {
+  # Input types (@constraint is checked before the resolver runs)
+  input OrderLineInput {
     productId: ID!
-    quantity: Int!
+    quantity: Int! @constraint(exclusiveMin: 0, max: 100)
+  }
+
+  input CreateOrderInput {
+    lines: [OrderLineInput!]!
+  }
+
+  # Retrying with the same idempotencyKey never charges twice
+  input PaymentInput {
+    cardNumber: String! @constraint(pattern: "^[0-9]{12,19}$")
+    idempotencyKey: String! @constraint(minLength: 8, maxLength: 100)
   }
 
   # Result types for demonstrating partial responses
@@ -77,6 +122,9 @@ export const typeDefs = /* GraphQL */ `
     
     # Query that simulates random failures
     unreliableQuery: String!
+
+    # Query that hits a bug (non-GraphQL error) - masked in the response
+    unexpectedError: String!
     
     # Protected query (requires auth)
     me: User!
@@ -90,16 +138,24 @@ export const typeDefs = /* GraphQL */ `
     # Create order with various validation
     createOrder(input: CreateOrderInput!): OrderResponse!
     
+    # Pay for a pending order - confirms it once the payment is captured
+    payOrder(id: ID!, input: PaymentInput!): OrderResponse!
+
     # Cancel order
     cancelOrder(id: ID!): OrderResponse!
     
-    # Update order (demonstrates conflict errors)
-    updateOrderStatus(id: ID!, status: String!): OrderResponse!
+    # Update order status (demonstrates conflict errors - only the
+    # transitions in ORDER_TRANSITIONS are allowed)
+    updateOrderStatus(id: ID!, status: OrderStatus!): OrderResponse!
     
     # Mutation that always fails (for testing)
     alwaysFails: String!
     
     # Mutation with multiple validation errors
-    createProduct(name: String!, price: Float!, stock: Int!): Product!
+    createProduct(
+      name: String! @constraint(minLength: 2)
+      price: Float! @constraint(exclusiveMin: 0, max: 1000000)
+      stock: Int! @constraint(min: 0)
+    ): Product!
   }
 `;
@@ -0,0 +1,95 @@
+import { LogBindings, LogEntry, LogLevel, LogSink, Logger } from '../types/index.js';
+
+const levels: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+};
+
+// Minimum level written (override via environment variables)
+const LOG_LEVEL = (process.env.LOG_LEVEL || 'info') as LogLevel;
+
+// Fields whose values never reach the logs (matched case-insensitively, at
+// any depth)
+export const DEFAULT_REDACT_KEYS = ['authorization', 'cookie', 'password', 'token', 'email'];
+
+const REDACTED = '[REDACTED]';
+
+// One JSON object per line - warnings and errors go to stderr
+export const consoleSink: LogSink = (entry) => {
+  const line = JSON.stringify(entry);
+  if (entry.level === 'error') {
+    console.error(line);
+  } else if (entry.level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+};
+
+// Copy of `value` with redacted fields replaced. Errors are reduced to their
+// name and message so they serialize.
+export const redact = (value: unknown, keys: string[] = DEFAULT_REDACT_KEYS): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, keys));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        keys.includes(key.toLowerCase()) ? REDACTED : redact(field, keys),
+      ])
+    );
+  }
+  return value;
+};
+
+export interface LoggerOptions {
+  level?: LogLevel;    // Minimum level written (default LOG_LEVEL)
+  sink?: LogSink;      // Where entries go (default consoleSink)
+  redact?: string[];   // Field names to redact (default DEFAULT_REDACT_KEYS)
+}
+
+// Create a structured logger. Every entry carries `bindings` (the request ID,
+// user, operation...) next to its own metadata:
+//
+//   {"time":"...","level":"info","msg":"Post created","requestId":"req_...","postId":"3"}
+export const createLogger = (bindings: LogBindings = {}, options: LoggerOptions = {}): Logger => {
+  const {
+    level = LOG_LEVEL,
+    sink = consoleSink,
+    redact: redactKeys = DEFAULT_REDACT_KEYS,
+  } = options;
+  const keys = redactKeys.map((key) => key.toLowerCase());
+  const minimum = levels[level] ?? levels.info;
+
+  const log = (entryLevel: LogLevel) => (message: string, meta?: Record<string, unknown>) => {
+    if (levels[entryLevel] < minimum) {
+      return;
+    }
+
+    sink({
+      time: new Date().toISOString(),
+      level: entryLevel,
+      msg: message,
+      ...(redact({ ...bindings, ...meta }, keys) as Record<string, unknown>),
+    });
+  };
+
+  return {
+    trace: log('trace'),
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }, options),
+  };
+};
+
+// Application logger
+export const logger = createLogger();
@@ -1,3 +1,5 @@
+import type { PaymentGateway } from '../payments/gateway.js';
+
 // User types
 export interface User {
   id: string;
@@ -15,22 +17,161 @@ export interface Product {
 }
 
 // Order types
+export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+
+export interface OrderLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number; // Product price when the order was placed
+}
+
+// One entry per status change - the first one is the order being placed
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedAt: string;
+  changedBy: string | null; // User id
+}
+
+// Captured payment of an order
+export interface Payment {
+  id: string; // Gateway payment id
+  amount: number;
+  cardLast4: string;
+  idempotencyKey: string;
+  capturedAt: string;
+}
+
 export interface Order {
   id: string;
   userId: string;
-  productId: string;
-  quantity: number;
-  status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+  lines: OrderLine[];
+  status: OrderStatus;
+  history: OrderStatusChange[];
+  payment: Payment | null;
   createdAt: string;
 }
 
 // Input types
-export interface CreateOrderInput {
+export interface OrderLineInput {
   productId: string;
   quantity: number;
 }
 
+export interface CreateOrderInput {
+  lines: OrderLineInput[];
+}
+
+export interface PaymentInput {
+  cardNumber: string;
+  idempotencyKey: string;
+}
+
+// Stock held for an order that hasn't been written yet
+export interface StockReservation {
+  id: string;
+  lines: OrderLine[];
+}
+
+// Products and orders live behind this interface so stock changes are
+// atomic whatever the storage is.
+//
+// Placing an order is reserve -> commit (or release on failure):
+//   reserveStock       - takes the stock for every line or for none of them
+//                        (InsufficientStockError / NotFoundError)
+//   commitReservation  - turns the held stock into an order
+//   releaseReservation - gives the held stock back
+export interface StoreRepository {
+  // Products
+  listProducts(): Promise<Product[]>;
+  findProduct(id: string): Promise<Product | null>;
+  findProductByName(name: string): Promise<Product | null>;
+  createProduct(input: Omit<Product, 'id'>): Promise<Product>;
+
+  // Orders
+  listOrders(): Promise<Order[]>;
+  findOrder(id: string): Promise<Order | null>;
+
+  // Stock reservation
+  reserveStock(lines: OrderLineInput[]): Promise<StockReservation>;
+  commitReservation(reservation: StockReservation, userId: string): Promise<Order>;
+  releaseReservation(reservation: StockReservation): Promise<void>;
+
+  // Compare-and-set: changes the status only if it is still `expected`
+  // (returns null otherwise) and records the change in the order's history.
+  // Cancelling returns the order's stock.
+  setOrderStatus(
+    id: string,
+    expected: OrderStatus,
+    next: OrderStatus,
+    changedBy: string
+  ): Promise<Order | null>;
+
+  // Attach a captured payment and move the order from pending to confirmed
+  // in one step (compare-and-set, returns null if it is no longer pending)
+  recordPayment(id: string, payment: Payment, changedBy: string): Promise<Order | null>;
+}
+
+// Idempotency keys - the first response to a mutation is stored per
+// key + user + mutation and replayed when the client retries
+export interface IdempotencyScope {
+  key: string;       // Idempotency-Key request header
+  userId: string;    // Current user id, or "anonymous"
+  operation: string; // Root mutation field(s), e.g. "createPost"
+}
+
+export interface IdempotencyRecord {
+  fingerprint: string;     // Hash of the document and variables
+  response: string | null; // Serialized result - null while still running
+}
+
+export interface IdempotencyStore {
+  // Claim the key for a new request. Returns null when the claim succeeded,
+  // otherwise the record of the request that holds the key.
+  claim(scope: IdempotencyScope, fingerprint: string, expiresAt: Date): Promise<IdempotencyRecord | null>;
+  // Store the response of the request that holds the key
+  complete(scope: IdempotencyScope, response: string, expiresAt: Date): Promise<void>;
+  // Give the key up (the request failed) so a retry runs again
+  release(scope: IdempotencyScope): Promise<void>;
+}
+
 // Context type
 export interface GraphQLContext {
   currentUser: User | null;
+  store: StoreRepository;
+  payments: PaymentGateway;
+}
+
+// Log levels, from most to least verbose
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+// Fields attached to every entry of a logger and its children
+export interface LogBindings {
+  requestId?: string;
+  userId?: string;
+  operationName?: string;
+  [key: string]: unknown;
+}
+
+// One structured log line
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [key: string]: unknown;
+}
+
+// Where entries are written (stdout by default, an array in tests)
+export type LogSink = (entry: LogEntry) => void;
+
+// Logger interface
+export interface Logger {
+  trace: (message: string, meta?: Record<string, unknown>) => void;
+  debug: (message: string, meta?: Record<string, unknown>) => void;
+  info: (message: string, meta?: Record<string, unknown>) => void;
+  warn: (message: string, meta?: Record<string, unknown>) => void;
+  error: (message: string, meta?: Record<string, unknown>) => void;
+
+  // Logger whose entries also carry `bindings`
+  child: (bindings: LogBindings) => Logger;
 }
@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs';
+import { Plugin } from 'graphql-yoga';
+import { usePersistedOperations } from '@graphql-yoga/plugin-persisted-operations';
+import { createInMemoryAPQStore, useAPQ } from '@graphql-yoga/plugin-apq';
+
+// Persisted operations mode
+// off        - any document is accepted (default)
+// permissive - clients may send a hash instead of the document. Hashes from
+//              the manifest work straight away; unknown ones are registered
+//              on first use (automatic persisted queries). Arbitrary
+//              documents are still accepted.
+// strict     - only operations from the manifest run, everything else is rejected
+export type PersistedOperationsMode = 'off' | 'permissive' | 'strict';
+
+export interface PersistedOperationsOptions {
+  mode: PersistedOperationsMode;
+  manifestPath: string; // Generated by `npm run persisted:generate`
+}
+
+// Manifest: SHA-256 hash of each document -> document
+export const loadManifest = (path: string): Map<string, string> => {
+  let manifest: Record<string, string>;
+  try {
+    manifest = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read persisted operations manifest "${path}" - run npm run persisted:generate`,
+      { cause: error }
+    );
+  }
+  return new Map(Object.entries(manifest));
+};
+
+// Clients send { "extensions": { "persistedQuery": { "version": 1, "sha256Hash": "..." } } }
+// instead of (or, to register it, together with) the query text
+export const usePersistedOperationsMode = ({
+  mode,
+  manifestPath,
+}: PersistedOperationsOptions): Plugin => {
+  if (mode === 'off') {
+    return {};
+  }
+
+  const manifest = loadManifest(manifestPath);
+
+  if (mode === 'strict') {
+    return usePersistedOperations({
+      getPersistedOperation: (hash) => manifest.get(hash) ?? null,
+      allowArbitraryOperations: false,
+      customErrors: {
+        // The default code for a plain query is CANNOT_SEND_PQ_ID_AND_BODY
+        persistedQueryOnly: {
+          message: 'Only persisted operations are allowed',
+          extensions: { code: 'PERSISTED_QUERY_ONLY' },
+        },
+      },
+    });
+  }
+
+  // Registered operations are kept in memory, bounded so anonymous clients
+  // can't grow the store forever
+  const registered = createInMemoryAPQStore({ max: 1000 });
+
+  return useAPQ({
+    store: {
+      get: (hash) => manifest.get(hash) ?? registered.get(hash),
+      set: (hash, query) => registered.set(hash, query),
+    },
+  });
+};
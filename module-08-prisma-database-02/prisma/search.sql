@@ -0,0 +1,15 @@
+-- Full-text search indexes (PostgreSQL tsvector).
+-- Expression indexes over the same expressions src/search.ts queries, so
+-- PostgreSQL keeps them up to date on every insert / update / delete - there
+-- are no extra columns or triggers to maintain. Safe to run again; apply with
+-- `npm run db:search` after `npm run db:push`.
+
+-- Posts: title (weight A) ranks above content (weight B)
+CREATE INDEX IF NOT EXISTS "Post_search_idx" ON "Post" USING GIN (
+    (setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B'))
+);
+
+-- Users: names aren't stemmed
+CREATE INDEX IF NOT EXISTS "User_search_idx" ON "User" USING GIN (
+    to_tsvector('simple', "name")
+);
@@ -0,0 +1,28 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse, print } from 'graphql';
+
+// Build the persisted operations manifest from the client's .graphql files.
+// Each file holds one operation (plus the fragments it uses); the key is the
+// SHA-256 of the printed document, which is what clients send as sha256Hash.
+//
+// Usage: npm run persisted:generate [-- <operations dir> [<manifest file>]]
+const [dir = 'operations', output = 'persisted-operations.json'] = process.argv.slice(2);
+
+const files = readdirSync(dir, { recursive: true })
+  .map(String)
+  .filter((file) => file.endsWith('.graphql'))
+  .sort();
+
+const manifest: Record<string, string> = {};
+
+for (const file of files) {
+  const document = print(parse(readFileSync(join(dir, file), 'utf8')));
+  const hash = createHash('sha256').update(document).digest('hex');
+  manifest[hash] = document;
+  console.log(`${hash}  ${file}`);
+}
+
+writeFileSync(output, `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`\n✅ Wrote ${files.length} operations to ${output}`);
@@ -0,0 +1,208 @@
+import { GraphQLError } from 'graphql';
+
+type Model = 'User' | 'Post' | 'Category';
+
+type FieldKind =
+  | 'string'
+  | 'stringList'
+  | 'date'
+  | 'boolean'
+  | 'enum'
+  | { one: Model }   // To-one relation: author
+  | { many: Model }; // To-many relation: posts, categories
+
+// The only fields a filter can reach - anything else in the input is rejected
+const FILTER_FIELDS: Record<Model, Record<string, FieldKind>> = {
+  User: {
+    name: 'string',
+    email: 'string',
+    role: 'enum',
+    createdAt: 'date',
+    posts: { many: 'Post' },
+  },
+  Post: {
+    title: 'string',
+    content: 'string',
+    published: 'boolean',
+    tags: 'stringList',
+    createdAt: 'date',
+    author: { one: 'User' },
+    categories: { many: 'Category' },
+  },
+  Category: {
+    name: 'string',
+  },
+};
+
+const SORT_FIELDS: Record<Model, string[]> = {
+  User: ['name', 'email', 'createdAt'],
+  Post: ['title', 'createdAt', 'updatedAt'],
+  Category: ['name'],
+};
+
+const STRING_OPERATORS = ['equals', 'in', 'contains', 'startsWith', 'endsWith', 'mode'];
+const STRING_LIST_OPERATORS = ['has', 'hasSome', 'hasEvery', 'isEmpty'];
+const DATE_OPERATORS = ['equals', 'gt', 'gte', 'lt', 'lte'];
+const LIST_OPERATORS = ['some', 'every', 'none'];
+const COMBINATORS = ['AND', 'OR', 'NOT'];
+
+// Nesting limit for AND / OR / NOT and relation filters
+const MAX_FILTER_DEPTH = 5;
+
+// Longest value list (`in`, `hasSome`, ...), and most conditions in one AND / OR / NOT
+const MAX_FILTER_VALUES = 100;
+
+const MAX_ORDER_BY = 3;
+
+type Input = Record<string, unknown>;
+
+const invalid = (message: string) => {
+  return new GraphQLError(message, { extensions: { code: 'VALIDATION_ERROR' } });
+};
+
+// GraphQL enum values are uppercase, Prisma's are lowercase
+const convertValue = (operator: string, value: unknown): unknown => {
+  if (operator === 'mode') {
+    return String(value).toLowerCase();
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return String(value);
+};
+
+const toDate = (_: string, value: unknown, path: string): Date => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw invalid(`"${path}" must be an ISO-8601 date`);
+  }
+  return date;
+};
+
+// Copy the operators a field supports, dropping nulls
+const translateOperators = (
+  filter: Input,
+  operators: string[],
+  path: string,
+  convert: (operator: string, value: unknown, path: string) => unknown
+) => {
+  const result: Input = {};
+
+  for (const [operator, value] of Object.entries(filter)) {
+    if (value === null || value === undefined) continue;
+    if (!operators.includes(operator)) {
+      throw invalid(`Unknown filter "${path}.${operator}"`);
+    }
+
+    const operatorPath = `${path}.${operator}`;
+    if (Array.isArray(value)) {
+      if (value.length > MAX_FILTER_VALUES) {
+        throw invalid(`"${operatorPath}" accepts at most ${MAX_FILTER_VALUES} values`);
+      }
+      result[operator] = value.map((item) => convert(operator, item, operatorPath));
+    } else {
+      result[operator] = convert(operator, value, operatorPath);
+    }
+  }
+
+  return result;
+};
+
+// There's no authentication here, so relation filters only see published
+// posts - otherwise a filter like
+// `author: { posts: { some: { published: false, content: { contains: "x" } } } }`
+// would tell anyone what drafts contain. `some` / `none` only look at
+// published posts, and `every` holds when each post is unpublished or matches.
+const publishedOnly = (filter: Input): Input => {
+  const result: Input = {};
+  if (filter.some) result.some = { AND: [filter.some, { published: true }] };
+  if (filter.none) result.none = { AND: [filter.none, { published: true }] };
+  if (filter.every) result.every = { OR: [{ published: false }, filter.every] };
+  return result;
+};
+
+const translateWhere = (model: Model, input: Input, path: string, depth: number): Input => {
+  if (depth > MAX_FILTER_DEPTH) {
+    throw invalid(`Filters can be nested at most ${MAX_FILTER_DEPTH} levels deep (${path})`);
+  }
+
+  const where: Input = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if (value === null || value === undefined) continue;
+    const fieldPath = `${path}.${key}`;
+
+    if (COMBINATORS.includes(key)) {
+      const conditions = value as Input[];
+      if (conditions.length > MAX_FILTER_VALUES) {
+        throw invalid(`"${fieldPath}" accepts at most ${MAX_FILTER_VALUES} conditions`);
+      }
+      where[key] = conditions.map((condition, index) =>
+        translateWhere(model, condition, `${fieldPath}[${index}]`, depth + 1)
+      );
+      continue;
+    }
+
+    const kind = FILTER_FIELDS[model][key];
+    if (kind === undefined) {
+      throw invalid(`Unknown filter "${fieldPath}"`);
+    }
+
+    if (kind === 'string') {
+      where[key] = translateOperators(value as Input, STRING_OPERATORS, fieldPath, convertValue);
+    } else if (kind === 'stringList') {
+      where[key] = translateOperators(value as Input, STRING_LIST_OPERATORS, fieldPath, convertValue);
+    } else if (kind === 'date') {
+      where[key] = translateOperators(value as Input, DATE_OPERATORS, fieldPath, toDate);
+    } else if (kind === 'boolean') {
+      where[key] = Boolean(value);
+    } else if (kind === 'enum') {
+      where[key] = String(value);
+    } else if ('one' in kind) {
+      where[key] = translateWhere(kind.one, value as Input, fieldPath, depth + 1);
+    } else {
+      const related = translateOperators(value as Input, LIST_OPERATORS, fieldPath, (_, filter, filterPath) =>
+        translateWhere(kind.many, filter as Input, filterPath, depth + 1)
+      );
+      where[key] = kind.many === 'Post' ? publishedOnly(related) : related;
+    }
+  }
+
+  return where;
+};
+
+// Translate a `where` argument into a Prisma where clause. Every key is
+// checked against an allow-list and values are converted, so no client input
+// reaches Prisma as-is.
+export const translateFilter = (model: Model, where: object | null | undefined): Input => {
+  return where ? translateWhere(model, where as Input, 'where', 1) : {};
+};
+
+// Translate an `orderBy` argument ([{ title: ASC }, ...]) into a Prisma
+// orderBy list. Returns undefined (database order) when there's none.
+export const translateOrderBy = (
+  model: Model,
+  orderBy: Array<Record<string, 'ASC' | 'DESC' | null>> | null | undefined
+) => {
+  if (!orderBy || orderBy.length === 0) {
+    return undefined;
+  }
+
+  if (orderBy.length > MAX_ORDER_BY) {
+    throw invalid(`"orderBy" accepts at most ${MAX_ORDER_BY} fields`);
+  }
+
+  return orderBy.map((item, index) => {
+    const entries = Object.entries(item).filter(([, direction]) => direction != null);
+    if (entries.length !== 1) {
+      throw invalid(`"orderBy[${index}]" must set exactly one field`);
+    }
+
+    const [field, direction] = entries[0];
+    if (!SORT_FIELDS[model].includes(field)) {
+      throw invalid(`Cannot order by "${field}"`);
+    }
+
+    return { [field]: direction === 'ASC' ? 'asc' : 'desc' };
+  });
+};
@@ -0,0 +1,129 @@
+import { readdirSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { Plugin } from 'graphql-yoga';
+
+// Shared with module-08-prisma-database-02 - keep both copies identical
+
+// The part of the Prisma client the checks use
+interface RawQueryClient {
+  $queryRawUnsafe: <T = unknown>(query: string) => Promise<T>;
+}
+
+// Where failed checks are reported - a structured logger, or the console
+export interface HealthCheckLog {
+  error: (message: string, meta?: Record<string, unknown>) => void;
+}
+
+export interface HealthCheckOptions {
+  prisma: RawQueryClient;
+  migrationsDir: string;       // prisma/migrations
+  isDraining: () => boolean;   // True once shutdown has started
+  log?: HealthCheckLog;        // Defaults to the console
+}
+
+const consoleLog: HealthCheckLog = {
+  error: (message, meta) => (meta ? console.error(message, meta) : console.error(message)),
+};
+
+export interface MigrationStatus {
+  status: 'up-to-date' | 'pending' | 'untracked';
+  applied: number;
+  pending: string[];
+}
+
+// Migrations in prisma/migrations that haven't been applied to the database.
+// A database created with `prisma db push` has no _prisma_migrations table -
+// its migrations are "untracked" rather than pending.
+const migrationStatus = async (
+  prisma: RawQueryClient,
+  migrationsDir: string
+): Promise<MigrationStatus> => {
+  const local = existsSync(migrationsDir)
+    ? readdirSync(migrationsDir).filter((name) => existsSync(join(migrationsDir, name, 'migration.sql')))
+    : [];
+
+  let rows: Array<{ migration_name: string }>;
+  try {
+    rows = await prisma.$queryRawUnsafe(
+      'SELECT migration_name FROM _prisma_migrations WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL'
+    );
+  } catch {
+    return { status: 'untracked', applied: 0, pending: [] };
+  }
+
+  const applied = new Set(rows.map((row) => row.migration_name));
+  const pending = local.filter((name) => !applied.has(name)).sort();
+
+  return {
+    status: pending.length > 0 ? 'pending' : 'up-to-date',
+    applied: applied.size,
+    pending,
+  };
+};
+
+const json = (Response: typeof globalThis.Response, status: number, body: unknown) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+};
+
+// Liveness and readiness probes
+//
+// GET /healthz - the process is up and serving HTTP. Never touches the
+//                database, so a database outage doesn't get the pod restarted.
+// GET /readyz  - the server can handle traffic: the database answers a
+//                `SELECT 1` and every migration in prisma/migrations has been
+//                applied. Answers 503 while draining on shutdown, so the load
+//                balancer stops routing here before the server closes. The
+//                probe is public, so a database error is logged, not returned.
+export const useHealthChecks = ({
+  prisma,
+  migrationsDir,
+  isDraining,
+  log = consoleLog,
+}: HealthCheckOptions): Plugin => {
+  const readiness = async (): Promise<{ status: number; body: unknown }> => {
+    if (isDraining()) {
+      return { status: 503, body: { status: 'draining' } };
+    }
+
+    const start = Date.now();
+    try {
+      await prisma.$queryRawUnsafe('SELECT 1');
+    } catch (error) {
+      log.error('Readiness check failed', { error });
+      return {
+        status: 503,
+        body: {
+          status: 'unavailable',
+          database: { status: 'down', error: 'database unavailable' },
+        },
+      };
+    }
+    const database = { status: 'up', latencyMs: Date.now() - start };
+
+    const migrations = await migrationStatus(prisma, migrationsDir);
+    const ready = migrations.status !== 'pending';
+
+    return {
+      status: ready ? 200 : 503,
+      body: { status: ready ? 'ready' : 'unavailable', database, migrations },
+    };
+  };
+
+  return {
+    async onRequest({ request, url, endResponse, fetchAPI }) {
+      if (request.method !== 'GET') {
+        return;
+      }
+
+      if (url.pathname === '/healthz') {
+        endResponse(json(fetchAPI.Response, 200, { status: 'ok', uptime: Math.round(process.uptime()) }));
+      } else if (url.pathname === '/readyz') {
+        const { status, body } = await readiness();
+        endResponse(json(fetchAPI.Response, status, body));
+      }
+    },
+  };
+};
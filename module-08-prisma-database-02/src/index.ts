@@ -1,9 +1,39 @@
 import { createServer } from 'node:http';
+import { fileURLToPath } from 'node:url';
 import { createYoga } from 'graphql-yoga';
 import { schema } from './schema/index.js';
+import { prisma } from './db/prisma.js';
+import { PersistedOperationsMode, usePersistedOperationsMode } from './persisted-operations.js';
+import { useHealthChecks } from './health.js';
+import { handleShutdownSignals } from './shutdown.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
+
+// Graceful shutdown timings in milliseconds (override via environment variables)
+const SHUTDOWN_DRAIN_DELAY_MS = Number(process.env.SHUTDOWN_DRAIN_DELAY_MS || 5000);
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS || 10000);
+
+// Set on SIGTERM / SIGINT - /readyz answers 503 from then on
+let draining = false;
 
 const yoga = createYoga({
   schema,
+  plugins: [
+    // /healthz and /readyz, answered before anything else
+    useHealthChecks({
+      prisma,
+      migrationsDir: fileURLToPath(new URL('../prisma/migrations', import.meta.url)),
+      isDraining: () => draining,
+    }),
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+  ],
   graphiql: {
     title: 'Prisma PostgreSQL Demo',
     defaultQuery: `# Prisma with PostgreSQL Demo
@@ -78,7 +108,18 @@ query GetUsers {
 
 const server = createServer(yoga);
 
+handleShutdownSignals({
+  server,
+  drainDelayMs: SHUTDOWN_DRAIN_DELAY_MS,
+  timeoutMs: SHUTDOWN_TIMEOUT_MS,
+  onDrain: () => {
+    draining = true;
+  },
+  cleanup: () => prisma.$disconnect(),
+});
+
 server.listen(4000, () => {
   console.log('🚀 Server running at http://localhost:4000/graphql');
   console.log('📦 Using PostgreSQL database');
+  console.log('❤️  Health: http://localhost:4000/healthz, readiness: http://localhost:4000/readyz');
 });
@@ -0,0 +1,39 @@
+import { GraphQLError } from 'graphql';
+
+// Same cursors and page size limits as module-08-prisma-database
+// (src/utils/pagination.ts)
+
+// Page size used when the client doesn't pass `first`
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Upper bound for a single page - keeps one request from loading the whole table
+export const MAX_PAGE_SIZE = 100;
+
+const CURSOR_PREFIX = 'cursor:';
+
+// Cursors are opaque to clients - they wrap the row id
+export const encodeCursor = (id: string): string => {
+  return Buffer.from(`${CURSOR_PREFIX}${id}`).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string, argName: string): string => {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+
+  if (!decoded.startsWith(CURSOR_PREFIX) || decoded.length === CURSOR_PREFIX.length) {
+    throw new GraphQLError(`Invalid cursor passed to "${argName}"`, {
+      extensions: { code: 'VALIDATION_ERROR', field: argName },
+    });
+  }
+
+  return decoded.slice(CURSOR_PREFIX.length);
+};
+
+export const validatePageSize = (value: number | null | undefined, argName: string) => {
+  if (value === null || value === undefined) return;
+
+  if (value < 0 || value > MAX_PAGE_SIZE) {
+    throw new GraphQLError(`"${argName}" must be between 0 and ${MAX_PAGE_SIZE}`, {
+      extensions: { code: 'VALIDATION_ERROR', field: argName },
+    });
+  }
+};
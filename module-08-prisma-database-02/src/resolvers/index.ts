@@ -1,5 +1,7 @@
 import { prisma } from '../db/prisma.js';
 import { GraphQLError } from 'graphql';
+import { SearchArgs, search } from '../search.js';
+import { translateFilter, translateOrderBy } from '../filters.js';
 
 interface CreateUserInput {
   email: string;
@@ -8,6 +10,12 @@ interface CreateUserInput {
   bio?: string;
 }
 
+// where / orderBy are checked and translated by src/filters.ts
+interface FilterArgs {
+  where?: object | null;
+  orderBy?: Array<Record<string, 'ASC' | 'DESC' | null>> | null;
+}
+
 interface CreatePostInput {
   title: string;
   content?: string;
@@ -18,14 +26,25 @@ interface CreatePostInput {
 
 export const resolvers = {
   Query: {
-    users: () => prisma.user.findMany({ include: { posts: true, profile: true } }),
+    users: (_: unknown, args: FilterArgs) =>
+      prisma.user.findMany({
+        where: translateFilter('User', args.where),
+        orderBy: translateOrderBy('User', args.orderBy),
+        include: { posts: true, profile: true },
+      }),
 
     user: (_: unknown, args: { id: string }) =>
       prisma.user.findUnique({ where: { id: args.id }, include: { posts: true, profile: true } }),
 
-    posts: (_: unknown, args: { published?: boolean }) =>
+    posts: (_: unknown, args: { published?: boolean } & FilterArgs) =>
       prisma.post.findMany({
-        where: args.published !== undefined ? { published: args.published } : undefined,
+        where: {
+          AND: [
+            args.published !== undefined ? { published: args.published } : {},
+            translateFilter('Post', args.where),
+          ],
+        },
+        orderBy: translateOrderBy('Post', args.orderBy),
         include: { author: true, categories: true },
       }),
 
@@ -33,6 +52,8 @@ export const resolvers = {
       prisma.post.findUnique({ where: { id: args.id }, include: { author: true, categories: true } }),
 
     categories: () => prisma.category.findMany({ include: { posts: true } }),
+
+    search: (_: unknown, args: SearchArgs) => search(args),
   },
 
   Mutation: {
@@ -89,6 +110,10 @@ export const resolvers = {
     posts: (parent: { id: string }) => prisma.post.findMany({ where: { categories: { some: { id: parent.id } } } }),
   },
 
+  SearchResult: {
+    __resolveType: (parent: { __typename: 'Post' | 'User' }) => parent.__typename,
+  },
+
   JSON: {
     __serialize: (value: unknown) => value,
     __parseValue: (value: unknown) => value,
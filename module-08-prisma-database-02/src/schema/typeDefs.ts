@@ -43,12 +43,137 @@ export const typeDefs = /* GraphQL */ `
 
   scalar JSON
 
+  # Full-text search
+  enum SearchType {
+    POST
+    USER
+  }
+
+  union SearchResult = Post | User
+
+  type SearchEdge {
+    node: SearchResult!
+    cursor: String!
+    score: Float!     # Relevance - higher is better
+    title: String     # Post title / user name with <mark> around matching words
+    snippet: String   # Excerpt of the post content around the matches
+  }
+
+  type SearchPageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type SearchConnection {
+    edges: [SearchEdge!]!
+    pageInfo: SearchPageInfo!
+  }
+
+  # List filters - translated into Prisma where / orderBy (src/filters.ts).
+  # Fields in one input are combined with AND; nulls are ignored.
+  enum QueryMode {
+    DEFAULT
+    INSENSITIVE
+  }
+
+  input StringFilter {
+    equals: String
+    in: [String!]
+    contains: String
+    startsWith: String
+    endsWith: String
+    mode: QueryMode   # INSENSITIVE: case-insensitive (ILIKE)
+  }
+
+  # PostgreSQL array columns (tags)
+  input StringListFilter {
+    has: String
+    hasSome: [String!]
+    hasEvery: [String!]
+    isEmpty: Boolean
+  }
+
+  # ISO-8601 dates, e.g. "2026-01-31" or "2026-01-31T12:00:00Z"
+  input DateTimeFilter {
+    equals: String
+    gt: String
+    gte: String
+    lt: String
+    lte: String
+  }
+
+  input UserWhereInput {
+    AND: [UserWhereInput!]
+    OR: [UserWhereInput!]
+    NOT: [UserWhereInput!]
+    name: StringFilter
+    email: StringFilter
+    role: Role
+    createdAt: DateTimeFilter
+    posts: PostListFilter
+  }
+
+  input PostWhereInput {
+    AND: [PostWhereInput!]
+    OR: [PostWhereInput!]
+    NOT: [PostWhereInput!]
+    title: StringFilter
+    content: StringFilter
+    published: Boolean
+    tags: StringListFilter
+    createdAt: DateTimeFilter
+    author: UserWhereInput
+    categories: CategoryListFilter
+  }
+
+  input CategoryWhereInput {
+    name: StringFilter
+  }
+
+  # To-many relations: some / every / none of the related rows match
+  input PostListFilter {
+    some: PostWhereInput
+    every: PostWhereInput
+    none: PostWhereInput
+  }
+
+  input CategoryListFilter {
+    some: CategoryWhereInput
+    every: CategoryWhereInput
+    none: CategoryWhereInput
+  }
+
+  # Sorting - one field per item, applied in list order
+  enum SortOrder {
+    ASC
+    DESC
+  }
+
+  input UserOrderByInput {
+    name: SortOrder
+    email: SortOrder
+    createdAt: SortOrder
+  }
+
+  input PostOrderByInput {
+    title: SortOrder
+    createdAt: SortOrder
+    updatedAt: SortOrder
+  }
+
   type Query {
-    users: [User!]!
+    users(where: UserWhereInput, orderBy: [UserOrderByInput!]): [User!]!
     user(id: ID!): User
-    posts(published: Boolean): [Post!]!
+    # \`published\` and \`where\` are combined with AND
+    posts(published: Boolean, where: PostWhereInput, orderBy: [PostOrderByInput!]): [Post!]!
     post(id: ID!): Post
     categories: [Category!]!
+
+    # Published posts and user names, best matches first (types: all when
+    # omitted). Accepts web search syntax: "quoted phrase", OR, -excluded
+    search(query: String!, types: [SearchType!], first: Int, after: String): SearchConnection!
   }
 
   input CreateUserInput {
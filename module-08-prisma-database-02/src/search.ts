@@ -0,0 +1,134 @@
+import { GraphQLError } from 'graphql';
+import { prisma } from './db/prisma.js';
+import {
+  DEFAULT_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  validatePageSize,
+} from './pagination.js';
+
+export type SearchType = 'POST' | 'USER';
+
+export interface SearchArgs {
+  query: string;
+  types?: SearchType[] | null;
+  first?: number | null;
+  after?: string | null;
+}
+
+interface SearchRow {
+  type: 'Post' | 'User';
+  id: string;
+  score: number;
+  title: string | null;
+  snippet: string | null;
+}
+
+// Must match the expressions indexed in prisma/search.sql, or PostgreSQL
+// can't use the indexes
+const POST_VECTOR = `(setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B'))`;
+const USER_VECTOR = `to_tsvector('simple', "name")`;
+
+const POST_QUERY = `websearch_to_tsquery('english', $1)`;
+const USER_QUERY = `websearch_to_tsquery('simple', $1)`;
+
+const HIGHLIGHT = `'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'`;
+const SNIPPET = `'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30'`;
+
+// $1 query, $2 / $3 include posts / users, $4 limit, $5 offset.
+// Ranks and pages first, then builds highlights for that page only -
+// ts_headline re-parses the whole text and is the expensive part.
+const SEARCH_SQL = `
+  WITH "hits" AS (
+    SELECT 'Post' AS "type", "id", ts_rank(${POST_VECTOR}, ${POST_QUERY}) AS "score"
+    FROM "Post"
+    WHERE $2::boolean AND "published" AND ${POST_VECTOR} @@ ${POST_QUERY}
+    UNION ALL
+    SELECT 'User' AS "type", "id", ts_rank(${USER_VECTOR}, ${USER_QUERY}) AS "score"
+    FROM "User"
+    WHERE $3::boolean AND ${USER_VECTOR} @@ ${USER_QUERY}
+    ORDER BY "score" DESC, "id"
+    LIMIT $4::integer OFFSET $5::integer
+  )
+  SELECT
+    "hits"."type",
+    "hits"."id",
+    "hits"."score",
+    CASE "hits"."type"
+      WHEN 'Post' THEN ts_headline('english', "Post"."title", ${POST_QUERY}, ${HIGHLIGHT})
+      ELSE ts_headline('simple', "User"."name", ${USER_QUERY}, ${HIGHLIGHT})
+    END AS "title",
+    ts_headline('english', "Post"."content", ${POST_QUERY}, ${SNIPPET}) AS "snippet"
+  FROM "hits"
+  LEFT JOIN "Post" ON "hits"."type" = 'Post' AND "Post"."id" = "hits"."id"
+  LEFT JOIN "User" ON "hits"."type" = 'User' AND "User"."id" = "hits"."id"
+  ORDER BY "hits"."score" DESC, "hits"."id"
+`;
+
+// Results are ordered by relevance rather than by a column, so search cursors
+// hold a position in the ranking instead of a row id
+const decodeOffset = (cursor: string): number => {
+  const offset = Number(decodeCursor(cursor, 'after'));
+
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new GraphQLError('Invalid cursor passed to "after"', {
+      extensions: { code: 'VALIDATION_ERROR', field: 'after' },
+    });
+  }
+
+  return offset;
+};
+
+// Full-text search across published posts and user names, best matches first.
+// The query accepts web search syntax: "quoted phrases", OR, -excluded.
+export const search = async (args: SearchArgs) => {
+  validatePageSize(args.first, 'first');
+
+  const size = args.first ?? DEFAULT_PAGE_SIZE;
+  const offset = args.after ? decodeOffset(args.after) : 0;
+  const types: SearchType[] = args.types?.length ? args.types : ['POST', 'USER'];
+
+  const rows: SearchRow[] = await prisma.$queryRawUnsafe(
+    SEARCH_SQL,
+    args.query,
+    types.includes('POST'),
+    types.includes('USER'),
+    size + 1,
+    offset
+  );
+  const page = rows.slice(0, size);
+
+  const postIds = page.filter((row) => row.type === 'Post').map((row) => row.id);
+  const userIds = page.filter((row) => row.type === 'User').map((row) => row.id);
+  const [posts, users] = await Promise.all([
+    postIds.length > 0 ? prisma.post.findMany({ where: { id: { in: postIds } } }) : [],
+    userIds.length > 0 ? prisma.user.findMany({ where: { id: { in: userIds } } }) : [],
+  ]);
+  const nodes = new Map<string, { id: string }>(
+    [...posts, ...users].map((node: { id: string }) => [node.id, node])
+  );
+
+  // Rows deleted since the search ran are left out
+  const edges = page.flatMap((row, index) => {
+    const node = nodes.get(row.id);
+    return node
+      ? [{
+          node: { ...node, __typename: row.type },
+          cursor: encodeCursor(String(offset + index + 1)),
+          score: row.score,
+          title: row.title,
+          snippet: row.snippet,
+        }]
+      : [];
+  });
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: rows.length > size,
+      hasPreviousPage: offset > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+  };
+};
@@ -0,0 +1,96 @@
+-- Full-text search over posts, comments and user names (FTS5).
+-- One row per searchable record: "title" is the post title or user name,
+-- "body" the post or comment content. Kept in sync by the triggers below.
+-- Safe to run again, e.g. on a database created with `prisma db push` - see
+-- `npm run db:search`. It drops and rebuilds the index.
+DROP TRIGGER IF EXISTS "posts_search_insert";
+DROP TRIGGER IF EXISTS "posts_search_update";
+DROP TRIGGER IF EXISTS "posts_search_delete";
+DROP TRIGGER IF EXISTS "comments_search_insert";
+DROP TRIGGER IF EXISTS "comments_search_update";
+DROP TRIGGER IF EXISTS "comments_search_delete";
+DROP TRIGGER IF EXISTS "users_search_insert";
+DROP TRIGGER IF EXISTS "users_search_update";
+DROP TRIGGER IF EXISTS "users_search_delete";
+DROP TABLE IF EXISTS "search_index";
+DROP TABLE IF EXISTS "search_index_rows";
+
+-- The record each search_index row belongs to, by rowid. FTS5 can't index
+-- other columns, so the triggers find a record's row here (by the unique
+-- index) and update or delete it by rowid instead of scanning the index.
+CREATE TABLE "search_index_rows" (
+    "rowid" INTEGER NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "id" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "search_index_rows_type_id_key" ON "search_index_rows"("type", "id");
+
+CREATE VIRTUAL TABLE "search_index" USING fts5(
+    "title",
+    "body",
+    tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+-- CreateTrigger
+CREATE TRIGGER "posts_search_insert" AFTER INSERT ON "posts" BEGIN
+    INSERT INTO "search_index_rows" ("type", "id") VALUES ('Post', NEW."id");
+    INSERT INTO "search_index" ("rowid", "title", "body") VALUES (last_insert_rowid(), NEW."title", NEW."content");
+END;
+
+CREATE TRIGGER "posts_search_update" AFTER UPDATE OF "title", "content" ON "posts" BEGIN
+    UPDATE "search_index" SET "title" = NEW."title", "body" = NEW."content"
+    WHERE "rowid" = (SELECT "rowid" FROM "search_index_rows" WHERE "type" = 'Post' AND "id" = NEW."id");
+END;
+
+CREATE TRIGGER "posts_search_delete" AFTER DELETE ON "posts" BEGIN
+    DELETE FROM "search_index" WHERE "rowid" = (SELECT "rowid" FROM "search_index_rows" WHERE "type" = 'Post' AND "id" = OLD."id");
+    DELETE FROM "search_index_rows" WHERE "type" = 'Post' AND "id" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "comments_search_insert" AFTER INSERT ON "comments" BEGIN
+    INSERT INTO "search_index_rows" ("type", "id") VALUES ('Comment', NEW."id");
+    INSERT INTO "search_index" ("rowid", "title", "body") VALUES (last_insert_rowid(), NULL, NEW."content");
+END;
+
+CREATE TRIGGER "comments_search_update" AFTER UPDATE OF "content" ON "comments" BEGIN
+    UPDATE "search_index" SET "body" = NEW."content"
+    WHERE "rowid" = (SELECT "rowid" FROM "search_index_rows" WHERE "type" = 'Comment' AND "id" = NEW."id");
+END;
+
+CREATE TRIGGER "comments_search_delete" AFTER DELETE ON "comments" BEGIN
+    DELETE FROM "search_index" WHERE "rowid" = (SELECT "rowid" FROM "search_index_rows" WHERE "type" = 'Comment' AND "id" = OLD."id");
+    DELETE FROM "search_index_rows" WHERE "type" = 'Comment' AND "id" = OLD."id";
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "users_search_insert" AFTER INSERT ON "users" BEGIN
+    INSERT INTO "search_index_rows" ("type", "id") VALUES ('User', NEW."id");
+    INSERT INTO "search_index" ("rowid", "title", "body") VALUES (last_insert_rowid(), NEW."name", NULL);
+END;
+
+CREATE TRIGGER "users_search_update" AFTER UPDATE OF "name" ON "users" BEGIN
+    UPDATE "search_index" SET "title" = NEW."name"
+    WHERE "rowid" = (SELECT "rowid" FROM "search_index_rows" WHERE "type" = 'User' AND "id" = NEW."id");
+END;
+
+CREATE TRIGGER "users_search_delete" AFTER DELETE ON "users" BEGIN
+    DELETE FROM "search_index" WHERE "rowid" = (SELECT "rowid" FROM "search_index_rows" WHERE "type" = 'User' AND "id" = OLD."id");
+    DELETE FROM "search_index_rows" WHERE "type" = 'User' AND "id" = OLD."id";
+END;
+
+-- Index the rows that already exist
+INSERT INTO "search_index_rows" ("type", "id") SELECT 'Post', "id" FROM "posts";
+INSERT INTO "search_index_rows" ("type", "id") SELECT 'Comment', "id" FROM "comments";
+INSERT INTO "search_index_rows" ("type", "id") SELECT 'User', "id" FROM "users";
+INSERT INTO "search_index" ("rowid", "title", "body")
+    SELECT "row"."rowid", "posts"."title", "posts"."content"
+    FROM "search_index_rows" AS "row" JOIN "posts" ON "row"."type" = 'Post' AND "posts"."id" = "row"."id";
+INSERT INTO "search_index" ("rowid", "title", "body")
+    SELECT "row"."rowid", NULL, "comments"."content"
+    FROM "search_index_rows" AS "row" JOIN "comments" ON "row"."type" = 'Comment' AND "comments"."id" = "row"."id";
+INSERT INTO "search_index" ("rowid", "title", "body")
+    SELECT "row"."rowid", "users"."name", NULL
+    FROM "search_index_rows" AS "row" JOIN "users" ON "row"."type" = 'User' AND "users"."id" = "row"."id";
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deletedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "deletedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "users_deletedAt_idx" ON "users"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "posts_deletedAt_idx" ON "posts"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "comments_deletedAt_idx" ON "comments"("deletedAt");
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../src/services/auth.js';
 
 const prisma = new PrismaClient();
 
@@ -6,15 +7,21 @@ async function main() {
   console.log('🌱 Seeding database...');
 
   // Clean existing data
+  await prisma.idempotencyKey.deleteMany();
+  await prisma.session.deleteMany();
   await prisma.comment.deleteMany();
   await prisma.post.deleteMany();
   await prisma.user.deleteMany();
 
+  // Every seeded user logs in with the same demo password
+  const passwordHash = await hashPassword('password123');
+
   // Create users
   const admin = await prisma.user.create({
     data: {
       email: 'admin@example.com',
       name: 'Admin User',
+      passwordHash,
       role: 'admin',
     },
   });
@@ -23,6 +30,7 @@ async function main() {
     data: {
       email: 'john@example.com',
       name: 'John Doe',
+      passwordHash,
       role: 'user',
     },
   });
@@ -31,6 +39,7 @@ async function main() {
     data: {
       email: 'jane@example.com',
       name: 'Jane Smith',
+      passwordHash,
       role: 'user',
     },
   });
@@ -0,0 +1,56 @@
+import { CreateCommentInput } from '../types/index.js';
+
+// A cached entity - every entry containing it is dropped
+export interface CacheEntity {
+  typename: string;
+  id?: string;
+}
+
+type Invalidation = (args: Record<string, unknown>) => CacheEntity[];
+
+// Mutation arguments are coerced by their GraphQL types - IDs arrive as
+// strings, input objects as objects
+const id = (value: unknown): string => String(value);
+
+// Cached entries to drop after a mutation succeeds, by root mutation field.
+//
+// The response cache also invalidates every entity a mutation result
+// contains, but only when the client selected its id - updates are listed
+// here so they don't depend on the selection. The rest cover what a result
+// can't show: lists that gain or lose items, and deleted records.
+// `{ typename }` without an id drops every entry containing that type.
+export const mutationInvalidations: Record<string, Invalidation> = {
+  // New / removed users change the users list; a renamed user can move in
+  // lists ordered or filtered by name and in search results. Deleting or
+  // restoring a user also hides / brings back their posts and comments.
+  createUser: () => [{ typename: 'User' }],
+  updateUser: () => [{ typename: 'User' }],
+  deleteUser: (args) => [
+    { typename: 'User', id: id(args.id) },
+    { typename: 'Post' },
+    { typename: 'Comment' },
+  ],
+  restoreUser: () => [
+    { typename: 'User' },
+    { typename: 'Post' },
+    { typename: 'Comment' },
+  ],
+
+  // Post lists are filtered by `published`, so creating, publishing and
+  // unpublishing change which posts every list holds. Editing a title or
+  // content changes which lists filtered or ordered by them, and which
+  // search results, hold the post.
+  createPost: () => [{ typename: 'Post' }],
+  updatePost: () => [{ typename: 'Post' }],
+  publishPost: () => [{ typename: 'Post' }],
+  unpublishPost: () => [{ typename: 'Post' }],
+  // Deleting or restoring a post also hides / brings back its comments
+  deletePost: (args) => [{ typename: 'Post', id: id(args.id) }, { typename: 'Comment' }],
+  restorePost: () => [{ typename: 'Post' }, { typename: 'Comment' }],
+
+  createComment: (args) => [
+    { typename: 'Post', id: (args.input as CreateCommentInput).postId },
+    { typename: 'Comment' },
+  ],
+  deleteComment: (args) => [{ typename: 'Comment', id: id(args.id) }],
+};
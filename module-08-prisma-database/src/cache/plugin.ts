@@ -0,0 +1,120 @@
+import { FieldNode, Kind, getArgumentValues, getOperationAST } from 'graphql';
+import { Plugin, isAsyncIterable } from 'graphql-yoga';
+import {
+  Cache,
+  createInMemoryCache,
+  useResponseCache,
+} from '@graphql-yoga/plugin-response-cache';
+import { authenticateRequest } from '../context/index.js';
+import { mutationInvalidations } from './invalidation.js';
+
+export interface ResponseCachingOptions {
+  max?: number; // Entries kept in memory - the least recently used are evicted
+}
+
+// Cached responses are per user session. The cache answers before the
+// context is built, so the token is validated here - a revoked session or a
+// changed role gets a different key instead of someone else's entry. The
+// context reuses the user found here.
+const session = async (request: Request): Promise<string | null> => {
+  const user = await authenticateRequest(request);
+  return user ? `${user.id}:${user.sessionId}:${user.role}` : null;
+};
+
+// Stamp each stored response with an Expires header, so responses served
+// from the cache later can tell the client how long they stay fresh
+const withExpiry = (cache: Cache): Cache => ({
+  ...cache,
+  set(key, result, entities, ttl) {
+    if (Number.isFinite(ttl)) {
+      const extensions = (result.extensions ||= {}) as {
+        http?: { headers?: Record<string, string> };
+      };
+      const http = (extensions.http ||= {});
+      const headers = (http.headers ||= {});
+      headers['Expires'] = new Date(Date.now() + ttl).toUTCString();
+    }
+    return cache.set(key, result, entities, ttl);
+  },
+});
+
+// Response cache
+//
+// Query results are cached for the shortest @cacheControl(maxAge) of the
+// types and fields they contain - results without any hint aren't cached.
+// Anonymous requests share entries; authenticated ones get their own, and
+// results containing PRIVATE fields are only cached for them.
+//
+// Every cached response carries an ETag (a client sending it back in
+// If-None-Match gets a 304), and GET responses get a Cache-Control header.
+// Entries are dropped when a mutation returns an entity they contain, or
+// per src/cache/invalidation.ts.
+export const useResponseCaching = ({
+  max = 1000,
+}: ResponseCachingOptions = {}): Plugin => {
+  const cache = withExpiry(createInMemoryCache({ max }));
+
+  return {
+    onPluginInit({ addPlugin }) {
+      addPlugin(useResponseCache({ cache, session, ttl: 0 }));
+    },
+
+    onExecute({ args }) {
+      const operation = getOperationAST(args.document, args.operationName);
+      const mutationType = args.schema.getMutationType();
+      if (operation?.operation !== 'mutation' || !mutationType) {
+        return;
+      }
+
+      const fields = operation.selectionSet.selections.filter(
+        (selection): selection is FieldNode =>
+          selection.kind === Kind.FIELD && selection.name.value in mutationInvalidations
+      );
+      if (fields.length === 0) {
+        return;
+      }
+
+      return {
+        async onExecuteDone({ result }) {
+          if (isAsyncIterable(result)) {
+            return;
+          }
+
+          // Only mutations that succeeded - a failed one returns null
+          const entities = fields
+            .filter((field) => result.data?.[field.alias?.value ?? field.name.value] != null)
+            .flatMap((field) => {
+              const name = field.name.value;
+              const fieldArgs = getArgumentValues(
+                mutationType.getFields()[name],
+                field,
+                args.variableValues ?? {}
+              );
+              return mutationInvalidations[name](fieldArgs);
+            });
+
+          if (entities.length > 0) {
+            await cache.invalidate(entities);
+          }
+        },
+      };
+    },
+
+    onResponse({ request, response }) {
+      const expires = response.headers.get('Expires');
+      if (!expires) {
+        return;
+      }
+
+      // Only GET requests can be cached by browsers and CDNs
+      if (request.method !== 'GET') {
+        response.headers.delete('Expires');
+        return;
+      }
+
+      const maxAge = Math.max(0, Math.ceil((Date.parse(expires) - Date.now()) / 1000));
+      const scope = request.headers.has('authorization') ? 'private' : 'public';
+      response.headers.set('Cache-Control', `${scope}, max-age=${maxAge}`);
+    },
+  };
+};
@@ -0,0 +1,176 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLField,
+  GraphQLNamedType,
+  GraphQLSchema,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+} from 'graphql';
+import { getFieldCost } from '../directives/cost.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../utils/pagination.js';
+
+// What the limits are checked against
+export interface QueryMetrics {
+  depth: number;      // Deepest field nesting (root fields are depth 1)
+  cost: number;       // Estimated work, see `measure` below
+  aliases: number;    // Aliased fields anywhere in the operation
+  rootFields: number; // Fields selected on the root type
+}
+
+interface Analysis {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+  aliases: number;
+}
+
+// Introspection (__schema, __type) and __typename are free and not counted
+const isMetaField = (node: FieldNode) => node.name.value.startsWith('__');
+
+const intArgument = (node: FieldNode, name: string, analysis: Analysis): number | null => {
+  const value = node.arguments?.find((arg) => arg.name.value === name)?.value;
+
+  if (value?.kind === Kind.INT) {
+    return Number(value.value);
+  }
+  if (value?.kind === Kind.VARIABLE) {
+    const variable = analysis.variables[value.name.value];
+    return typeof variable === 'number' ? variable : null;
+  }
+  return null;
+};
+
+// How many times the selection under a field is resolved.
+// Paginated fields return `first` / `last` items (the server default page
+// size when neither is given, capped at the maximum page size); other lists
+// use the @cost(assumedSize) hint.
+const multiplier = (
+  node: FieldNode,
+  field: GraphQLField<unknown, unknown>,
+  analysis: Analysis
+): number => {
+  if (field.args.some((arg) => arg.name === 'first' || arg.name === 'last')) {
+    const size = intArgument(node, 'first', analysis) ?? intArgument(node, 'last', analysis);
+    return Math.min(Math.max(size ?? DEFAULT_PAGE_SIZE, 0), MAX_PAGE_SIZE);
+  }
+
+  if (isListType(getNullableType(field.type))) {
+    return getFieldCost(analysis.schema, field).assumedSize;
+  }
+
+  return 1;
+};
+
+const fieldsOf = (type: GraphQLNamedType | null | undefined) => {
+  return isObjectType(type) || isInterfaceType(type) ? type.getFields() : {};
+};
+
+// Cost of a selection set: every field costs its weight plus the cost of its
+// own selection times its multiplier. For
+//
+//   posts(first: 10) { edges { node { author { name } } } }
+//
+// that is 1 (posts) + 10 x 1 (author) = 11, since edges/node cost nothing.
+// Fragments on different types of a union/interface are all added up, so the
+// estimate is an upper bound.
+const measure = (
+  selectionSet: SelectionSetNode,
+  type: GraphQLNamedType | null | undefined,
+  depth: number,
+  analysis: Analysis
+): { cost: number; depth: number } => {
+  let cost = 0;
+  let maxDepth = depth;
+
+  const add = (result: { cost: number; depth: number }) => {
+    cost += result.cost;
+    maxDepth = Math.max(maxDepth, result.depth);
+  };
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (isMetaField(selection)) continue;
+      if (selection.alias) analysis.aliases++;
+
+      const field = fieldsOf(type)[selection.name.value];
+      if (!field) continue;
+
+      const fieldType = getNamedType(field.type);
+      const child = selection.selectionSet && isCompositeType(fieldType)
+        ? measure(selection.selectionSet, fieldType, depth + 1, analysis)
+        : { cost: 0, depth };
+
+      add({
+        cost: getFieldCost(analysis.schema, field).weight
+          + multiplier(selection, field, analysis) * child.cost,
+        depth: child.depth,
+      });
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const fragmentType = selection.typeCondition
+        ? analysis.schema.getType(selection.typeCondition.name.value)
+        : type;
+      add(measure(selection.selectionSet, fragmentType, depth, analysis));
+    } else {
+      const fragment = analysis.fragments.get(selection.name.value);
+      if (fragment) {
+        const fragmentType = analysis.schema.getType(fragment.typeCondition.name.value);
+        add(measure(fragment.selectionSet, fragmentType, depth, analysis));
+      }
+    }
+  }
+
+  return { cost, depth: maxDepth };
+};
+
+// Fields on the root type, looking through fragments
+const countRootFields = (selectionSet: SelectionSetNode, analysis: Analysis): number => {
+  return selectionSet.selections.reduce((count, selection) => {
+    if (selection.kind === Kind.FIELD) {
+      return count + (isMetaField(selection) ? 0 : 1);
+    }
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      return count + countRootFields(selection.selectionSet, analysis);
+    }
+    const fragment = analysis.fragments.get(selection.name.value);
+    return count + (fragment ? countRootFields(fragment.selectionSet, analysis) : 0);
+  }, 0);
+};
+
+// Measure an operation before it runs. The document has already passed
+// validation, so fragments exist and don't form cycles.
+export const analyzeOperation = (
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown> = {}
+): QueryMetrics => {
+  const analysis: Analysis = {
+    schema,
+    fragments: new Map(
+      document.definitions
+        .filter((definition) => definition.kind === Kind.FRAGMENT_DEFINITION)
+        .map((fragment) => [fragment.name.value, fragment])
+    ),
+    variables,
+    aliases: 0,
+  };
+
+  const rootType = schema.getRootType(operation.operation);
+  const { cost, depth } = measure(operation.selectionSet, rootType, 1, analysis);
+
+  return {
+    depth,
+    cost,
+    aliases: analysis.aliases,
+    rootFields: countRootFields(operation.selectionSet, analysis),
+  };
+};
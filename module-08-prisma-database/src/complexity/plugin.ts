@@ -0,0 +1,89 @@
+import { ExecutionArgs, GraphQLError, getOperationAST } from 'graphql';
+import { Plugin } from 'graphql-yoga';
+import { QueryMetrics, analyzeOperation } from './analysis.js';
+
+export interface QueryLimits {
+  maxDepth: number;      // Deepest field nesting
+  maxCost: number;       // Estimated cost (see analysis.ts and @cost)
+  maxAliases: number;    // Aliased fields in one operation
+  maxRootFields: number; // Root fields in one operation
+}
+
+const checks: Array<{
+  metric: keyof QueryMetrics;
+  limit: keyof QueryLimits;
+  describe: (value: number, max: number) => string;
+}> = [
+  {
+    metric: 'depth',
+    limit: 'maxDepth',
+    describe: (value, max) => `Query depth ${value} exceeds the maximum of ${max}`,
+  },
+  {
+    metric: 'cost',
+    limit: 'maxCost',
+    describe: (value, max) => `Query cost ${value} exceeds the maximum of ${max}`,
+  },
+  {
+    metric: 'aliases',
+    limit: 'maxAliases',
+    describe: (value, max) => `Query uses ${value} aliases, the maximum is ${max}`,
+  },
+  {
+    metric: 'rootFields',
+    limit: 'maxRootFields',
+    describe: (value, max) => `Query selects ${value} root fields, the maximum is ${max}`,
+  },
+];
+
+// Query depth, cost, alias and root field limits
+//
+// Every operation is measured after validation and before execution. One
+// that exceeds a limit never reaches a resolver - the client gets a
+// QUERY_TOO_COMPLEX error per exceeded limit, each carrying the computed
+// metrics so it can see how far over it is.
+export const useQueryLimits = (limits: QueryLimits): Plugin => {
+  const check = (args: ExecutionArgs): GraphQLError[] => {
+    const operation = getOperationAST(args.document, args.operationName);
+    if (!operation) {
+      return [];
+    }
+
+    const metrics = analyzeOperation(
+      args.schema,
+      args.document,
+      operation,
+      args.variableValues ?? undefined
+    );
+
+    return checks
+      .filter(({ metric, limit }) => metrics[metric] > limits[limit])
+      .map(({ metric, limit, describe }) =>
+        new GraphQLError(describe(metrics[metric], limits[limit]), {
+          extensions: {
+            code: 'QUERY_TOO_COMPLEX',
+            limit: metric,
+            max: limits[limit],
+            ...metrics,
+            http: { status: 400 },
+          },
+        })
+      );
+  };
+
+  return {
+    onExecute({ args, setResultAndStopExecution }) {
+      const errors = check(args);
+      if (errors.length > 0) {
+        setResultAndStopExecution({ errors });
+      }
+    },
+
+    onSubscribe({ args, setResultAndStopExecution }) {
+      const errors = check(args);
+      if (errors.length > 0) {
+        setResultAndStopExecution({ errors });
+      }
+    },
+  };
+};
@@ -1,30 +1,45 @@
 import { YogaInitialContext } from 'graphql-yoga';
+import { GraphQLError } from 'graphql';
 import { prisma } from '../db/prisma.js';
+import { createLoaders } from '../loaders/index.js';
+import { pubsub } from '../pubsub/index.js';
+import { verifyAccessToken } from '../services/auth.js';
 import { GraphQLContext, AuthUser } from '../types/index.js';
 
-// Simulated token validation (in production, use JWT)
-const validateToken = async (token: string): Promise<AuthUser | null> => {
-  // Look up user by token (simplified - in real app, decode JWT)
-  const tokenMap: Record<string, string> = {
-    'admin-token': 'admin@example.com',
-    'john-token': 'john@example.com',
-    'jane-token': 'jane@example.com',
-  };
-
-  const email = tokenMap[token];
-  if (!email) return null;
+// Validate a JWT access token and load the user it was issued to.
+// Tampered or expired tokens throw INVALID_TOKEN / TOKEN_EXPIRED rather than
+// silently falling back to an anonymous request. Also used by the response
+// cache, which answers before the context is built.
+export const validateToken = async (token: string): Promise<AuthUser> => {
+  const claims = verifyAccessToken(token);
 
+  // Re-read the user so deleted users, role changes and revoked sessions
+  // (logout, revokeAllSessions, refresh token reuse) take effect immediately
   const user = await prisma.user.findUnique({
-    where: { email },
-    select: { id: true, email: true, role: true },
+    where: { id: claims.sub },
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      sessions: {
+        where: { familyId: claims.sid, revokedAt: null },
+        select: { id: true },
+        take: 1,
+      },
+    },
   });
 
-  if (!user) return null;
+  if (!user || user.sessions.length === 0) {
+    throw new GraphQLError('Invalid authentication token', {
+      extensions: { code: 'INVALID_TOKEN', http: { status: 401 } },
+    });
+  }
 
   return {
     id: user.id,
     email: user.email,
     role: user.role as 'admin' | 'user',
+    sessionId: claims.sid,
   };
 };
 
@@ -33,28 +48,64 @@ const generateRequestId = (): string => {
   return `req_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
 };
 
-// Context factory - called for each request
+// graphql-ws passes the client's connectionParams instead of an HTTP request
+type InitialContext = YogaInitialContext & {
+  connectionParams?: Record<string, unknown>;
+};
+
+// WebSocket clients send the token in connectionParams
+const connectionAuthorization = (initialContext: InitialContext): string | null => {
+  const param = initialContext.connectionParams?.authorization
+    ?? initialContext.connectionParams?.Authorization;
+
+  return typeof param === 'string' ? param : null;
+};
+
+// Users by HTTP request. The response cache authenticates a request before
+// its context is built; the context reuses that result instead of
+// validating the token again.
+const requestUsers = new WeakMap<Request, Promise<AuthUser | null>>();
+
+// The user a request's Authorization header belongs to (null when it has
+// none), validated once per request
+export const authenticateRequest = (request: Request): Promise<AuthUser | null> => {
+  let user = requestUsers.get(request);
+
+  if (!user) {
+    const authorization = request.headers.get('authorization');
+    user = authorization?.startsWith('Bearer ')
+      ? validateToken(authorization.slice(7))
+      : Promise.resolve(null);
+    requestUsers.set(request, user);
+  }
+
+  return user;
+};
+
+// Context factory - called for each request (and each WebSocket subscription)
 export const createContext = async (
-  initialContext: YogaInitialContext
+  initialContext: InitialContext
 ): Promise<GraphQLContext> => {
-  const { request } = initialContext;
-
   // Generate request ID for tracing
   const requestId = generateRequestId();
 
-  // Extract and validate auth token
+  // Extract and validate auth token - HTTP requests (including SSE
+  // subscriptions) send a header, WebSocket clients send connection params
   let currentUser: AuthUser | null = null;
-  const authHeader = request.headers.get('authorization');
+  const authHeader = connectionAuthorization(initialContext);
 
   if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.slice(7);
-    currentUser = await validateToken(token);
+    currentUser = await validateToken(authHeader.slice(7));
+  } else if (!authHeader && initialContext.request) {
+    currentUser = await authenticateRequest(initialContext.request);
   }
 
   // Return context with Prisma client injected
   return {
-    prisma,      // Database access via context
-    currentUser, // Authenticated user
-    requestId,   // Request tracing
+    prisma,                         // Database access via context
+    currentUser,                    // Authenticated user
+    loaders: createLoaders(prisma), // Per-request batching for relations
+    pubsub,                         // Subscription events
+    requestId,                      // Request tracing
   };
 };
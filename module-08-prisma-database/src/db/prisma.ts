@@ -1,4 +1,9 @@
 import { PrismaClient } from '@prisma/client';
+import { SpanKind } from '@opentelemetry/api';
+import { translatePrismaError } from '../errors/prisma.js';
+import { recordError, tracer } from '../tracing/tracer.js';
+import { countPrismaQuery } from '../metrics/index.js';
+import { excludeDeleted } from './soft-delete.js';
 
 // Create a single PrismaClient instance to be shared across the application
 // This is important for connection pooling and performance
@@ -9,17 +14,70 @@ declare global {
 }
 
 // Prevent multiple instances during hot reloading in development
-export const prisma = globalThis.__prisma || new PrismaClient({
+const client = globalThis.__prisma || new PrismaClient({
   log: process.env.NODE_ENV === 'development'
     ? ['query', 'info', 'warn', 'error']
     : ['error'],
 });
 
 if (process.env.NODE_ENV !== 'production') {
-  globalThis.__prisma = prisma;
+  globalThis.__prisma = client;
 }
 
+// Every model operation translates Prisma's known request errors (unique,
+// not found, foreign key) into NotFoundError / AlreadyExistsError /
+// ConflictError, so resolvers can call Prisma directly instead of checking
+// first - the database decides atomically and the client still gets the
+// right code.
+//
+// Each operation is also traced (as a child of the resolver span that ran
+// it) and counted in the prisma_queries_total metric. Soft-deleted users,
+// posts and comments are left out (see ./soft-delete.ts). Tests wrap a
+// client of their own, e.g. one that logs its SQL.
+export const extendClient = (base: PrismaClient) => base.$extends({
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }: {
+        model: string;
+        operation: string;
+        args: Record<string, unknown> | undefined;
+        query: (args: Record<string, unknown> | undefined) => Promise<unknown>;
+      }) {
+        countPrismaQuery(model, operation);
+        args = excludeDeleted(model, operation, args);
+
+        return tracer.startActiveSpan(
+          `prisma:${model}.${operation}`,
+          {
+            kind: SpanKind.CLIENT,
+            attributes: {
+              'db.system.name': 'sqlite',
+              'db.collection.name': model,
+              'db.operation.name': operation,
+            },
+          },
+          async (span) => {
+            try {
+              return await query(args);
+            } catch (error) {
+              const translated = translatePrismaError(error, model, args);
+              recordError(span, translated);
+              throw translated;
+            } finally {
+              span.end();
+            }
+          }
+        );
+      },
+    },
+  },
+});
+
+export const prisma = extendClient(client);
+
+export type Database = typeof prisma;
+
 // Graceful shutdown
 process.on('beforeExit', async () => {
-  await prisma.$disconnect();
+  await client.$disconnect();
 });
@@ -0,0 +1,55 @@
+// Soft delete
+//
+// Users, posts and comments aren't deleted right away: deleting one sets
+// `deletedAt`, and every read and update through the Prisma client skips
+// those rows unless the query says otherwise. The purge job (src/purge.ts)
+// hard-deletes them once the retention period has passed.
+
+// Models with a deletedAt column
+const SOFT_DELETE_MODELS = new Set(['User', 'Post', 'Comment']);
+
+// Operations that only see rows that haven't been deleted. Updating or
+// deleting a deleted row fails with NOT_FOUND, the same as a row that doesn't
+// exist; upserting one tries to create it and fails on its unique fields.
+// (The purge job's deleteMany sets `deletedAt` itself.)
+const FILTERED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+// Spread into a where clause to see deleted rows as well
+// (Prisma ignores the undefined value, but the key opts out of the filter)
+export const INCLUDE_DELETED = { deletedAt: undefined };
+
+// Add `deletedAt: null` to the query's where clause. A query that sets
+// `deletedAt` itself - INCLUDE_DELETED, or `{ not: null }` to find only
+// deleted rows - is left alone. Nested relation selects aren't covered:
+// they filter on `deletedAt: null` themselves.
+export const excludeDeleted = (
+  model: string,
+  operation: string,
+  args: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined => {
+  if (!SOFT_DELETE_MODELS.has(model) || !FILTERED_OPERATIONS.has(operation)) {
+    return args;
+  }
+
+  const where = (args?.where ?? {}) as Record<string, unknown>;
+  if ('deletedAt' in where) {
+    return args;
+  }
+
+  return { ...args, where: { ...where, deletedAt: null } };
+};
@@ -0,0 +1,138 @@
+import { GraphQLError, GraphQLSchema, defaultFieldResolver } from 'graphql';
+import { MapperKind, getDirective, mapSchema } from '@graphql-tools/utils';
+import { AuthUser, GraphQLContext } from '../types/index.js';
+
+// Authorization directives
+//
+// @auth              - caller must be authenticated
+// @hasRole(role)     - caller must have the role (ADMIN also satisfies USER)
+// @isOwner(resource) - caller must own the record named by the `id` argument
+//                      (admins bypass the check)
+// @public            - opts a field out of an @auth / @hasRole on its type
+//
+// @auth and @hasRole can be put on a whole type (e.g. `type Mutation @auth`),
+// so a new field is protected by default and has to opt out explicitly.
+export const authDirectiveTypeDefs = /* GraphQL */ `
+  enum Role {
+    ADMIN
+    USER
+  }
+
+  enum OwnedResource {
+    POST
+    COMMENT
+  }
+
+  directive @auth on OBJECT | FIELD_DEFINITION
+  directive @hasRole(role: Role!) on OBJECT | FIELD_DEFINITION
+  directive @isOwner(
+    resource: OwnedResource!
+    field: String! = "authorId"
+    idArg: String! = "id"
+  ) on FIELD_DEFINITION
+  directive @public on FIELD_DEFINITION
+`;
+
+type Role = 'ADMIN' | 'USER';
+type OwnedResource = 'POST' | 'COMMENT';
+
+const requireAuth = (context: GraphQLContext): AuthUser => {
+  if (!context.currentUser) {
+    throw new GraphQLError('Authentication required', {
+      extensions: { code: 'UNAUTHENTICATED' },
+    });
+  }
+  return context.currentUser;
+};
+
+const requireRole = (user: AuthUser, role: Role) => {
+  if (role === 'ADMIN' && user.role !== 'admin') {
+    throw new GraphQLError('Admin access required', {
+      extensions: { code: 'FORBIDDEN' },
+    });
+  }
+};
+
+const resourceNames: Record<OwnedResource, string> = {
+  POST: 'Post',
+  COMMENT: 'Comment',
+};
+
+// Load the record through the request's DataLoaders so the resolver (and
+// field resolvers) can re-read it without another query
+const loadResource = (context: GraphQLContext, resource: OwnedResource, id: string) => {
+  return resource === 'POST'
+    ? context.loaders.postById.load(id)
+    : context.loaders.commentById.load(id);
+};
+
+const requireOwnership = async (
+  user: AuthUser,
+  context: GraphQLContext,
+  args: Record<string, unknown>,
+  { resource, field, idArg }: { resource: OwnedResource; field: string; idArg: string }
+) => {
+  const record = (await loadResource(context, resource, String(args[idArg]))) as
+    | Record<string, unknown>
+    | null;
+  const name = resourceNames[resource];
+
+  if (!record) {
+    throw new GraphQLError(`${name} not found`, {
+      extensions: { code: 'NOT_FOUND' },
+    });
+  }
+
+  if (record[field] !== user.id && user.role !== 'admin') {
+    throw new GraphQLError(`Not authorized to modify this ${name.toLowerCase()}`, {
+      extensions: { code: 'FORBIDDEN' },
+    });
+  }
+};
+
+// Schema transformer - wraps the resolver of every field that carries (or
+// inherits from its type) one of the directives above
+export const authDirectiveTransformer = (schema: GraphQLSchema): GraphQLSchema => {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, _fieldName, typeName) => {
+      const type = schema.getType(typeName)!;
+
+      const isPublic = Boolean(getDirective(schema, fieldConfig, 'public')?.[0]);
+      const fieldAuth = getDirective(schema, fieldConfig, 'auth')?.[0];
+      const fieldRole = getDirective(schema, fieldConfig, 'hasRole')?.[0];
+      const typeAuth = isPublic ? undefined : getDirective(schema, type, 'auth')?.[0];
+      const typeRole = isPublic ? undefined : getDirective(schema, type, 'hasRole')?.[0];
+      const owner = getDirective(schema, fieldConfig, 'isOwner')?.[0];
+
+      const role = (fieldRole?.role ?? typeRole?.role) as Role | undefined;
+      const needsAuth = Boolean(fieldAuth || typeAuth || role || owner);
+
+      if (!needsAuth) {
+        return fieldConfig;
+      }
+
+      const { resolve = defaultFieldResolver } = fieldConfig;
+
+      return {
+        ...fieldConfig,
+        resolve: async (source, args, context: GraphQLContext, info) => {
+          const user = requireAuth(context);
+
+          if (role) {
+            requireRole(user, role);
+          }
+
+          if (owner) {
+            await requireOwnership(user, context, args, {
+              resource: owner.resource as OwnedResource,
+              field: owner.field as string,
+              idArg: owner.idArg as string,
+            });
+          }
+
+          return resolve(source, args, context, info);
+        },
+      };
+    },
+  });
+};
@@ -0,0 +1,197 @@
+import {
+  GraphQLError,
+  GraphQLFieldResolver,
+  GraphQLInputType,
+  GraphQLSchema,
+  defaultFieldResolver,
+  getNullableType,
+  isInputObjectType,
+  isListType,
+} from 'graphql';
+import { MapperKind, getDirective, mapSchema } from '@graphql-tools/utils';
+
+// Input validation directive - the string constraints of module-07's
+// @constraint (src/directives/constraint.ts there also has number ranges)
+//
+// @constraint can be put on arguments and input fields:
+//
+//   input CreatePostInput {
+//     title: String! @constraint(minLength: 3, maxLength: 200)
+//   }
+//
+// minLength / maxLength - string length (leading/trailing whitespace ignored)
+// pattern               - string must match the regular expression
+// format                - named string format ("email")
+//
+// Arguments are checked before the resolver runs and every violation is
+// reported at once in the `validationErrors` extension.
+export const constraintDirectiveTypeDefs = /* GraphQL */ `
+  directive @constraint(
+    minLength: Int
+    maxLength: Int
+    pattern: String
+    format: String
+  ) on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION
+`;
+
+interface Constraint {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+}
+
+export interface Violation {
+  field: string; // Path from the arguments, e.g. "input.title"
+  message: string;
+}
+
+const formats: Record<string, { regex: RegExp; message: string }> = {
+  email: {
+    regex: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    message: 'must be a valid email address',
+  },
+};
+
+const label = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const characters = (count: number) => `${count} character${count === 1 ? '' : 's'}`;
+
+// Check one scalar value against a constraint
+const checkValue = (value: unknown, constraint: Constraint, name: string): string[] => {
+  const messages: string[] = [];
+  const subject = label(name);
+
+  if (typeof value === 'string') {
+    const length = value.trim().length;
+
+    if (constraint.minLength !== undefined && length < constraint.minLength) {
+      messages.push(`${subject} must be at least ${characters(constraint.minLength)}`);
+    }
+    if (constraint.maxLength !== undefined && length > constraint.maxLength) {
+      messages.push(`${subject} must be at most ${characters(constraint.maxLength)}`);
+    }
+    if (constraint.pattern !== undefined && !new RegExp(constraint.pattern).test(value)) {
+      messages.push(`${subject} has an invalid format`);
+    }
+    if (constraint.format !== undefined && !formats[constraint.format].regex.test(value)) {
+      messages.push(`${subject} ${formats[constraint.format].message}`);
+    }
+  }
+
+  return messages;
+};
+
+// Schema transformer - wraps the resolver of every field that has a
+// @constraint on one of its arguments (or anywhere inside an input object
+// argument)
+export const constraintDirectiveTransformer = (schema: GraphQLSchema): GraphQLSchema => {
+  const getConstraint = (node: Parameters<typeof getDirective>[1]) => {
+    const constraint = getDirective(schema, node, 'constraint')?.[0] as Constraint | undefined;
+
+    if (constraint?.format !== undefined && !formats[constraint.format]) {
+      throw new Error(`Unknown @constraint format "${constraint.format}"`);
+    }
+
+    return constraint;
+  };
+
+  // Does a value of this type (or anything nested in it) carry a constraint?
+  const hasConstraints = (type: GraphQLInputType, seen = new Set<string>()): boolean => {
+    const nullable = getNullableType(type);
+
+    if (isListType(nullable)) {
+      return hasConstraints(nullable.ofType, seen);
+    }
+
+    if (!isInputObjectType(nullable) || seen.has(nullable.name)) {
+      return false;
+    }
+
+    seen.add(nullable.name);
+    return Object.values(nullable.getFields()).some(
+      (field) => Boolean(getConstraint(field)) || hasConstraints(field.type, seen)
+    );
+  };
+
+  // Walk an argument value alongside its type and collect violations
+  const validate = (
+    type: GraphQLInputType,
+    value: unknown,
+    path: string,
+    name: string,
+    constraint: Constraint | undefined,
+    violations: Violation[]
+  ) => {
+    // Missing values are GraphQL's job (non-null types)
+    if (value === null || value === undefined) return;
+
+    const nullable = getNullableType(type);
+
+    // A constraint on a list applies to each item
+    if (isListType(nullable)) {
+      (value as unknown[]).forEach((item, index) => {
+        validate(nullable.ofType, item, `${path}[${index}]`, name, constraint, violations);
+      });
+      return;
+    }
+
+    if (isInputObjectType(nullable)) {
+      const fields = value as Record<string, unknown>;
+      for (const field of Object.values(nullable.getFields())) {
+        validate(
+          field.type,
+          fields[field.name],
+          `${path}.${field.name}`,
+          field.name,
+          getConstraint(field),
+          violations
+        );
+      }
+      return;
+    }
+
+    if (constraint) {
+      for (const message of checkValue(value, constraint, name)) {
+        violations.push({ field: path, message });
+      }
+    }
+  };
+
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig) => {
+      const args = Object.entries(fieldConfig.args ?? {}).map(([name, arg]) => ({
+        name,
+        type: arg.type,
+        constraint: getConstraint(arg),
+      }));
+
+      if (!args.some((arg) => arg.constraint || hasConstraints(arg.type))) {
+        return fieldConfig;
+      }
+
+      const withValidation = <T extends GraphQLFieldResolver<unknown, unknown>>(resolve: T) =>
+        ((source, fieldArgs, context, info) => {
+          const violations: Violation[] = [];
+
+          for (const arg of args) {
+            validate(arg.type, fieldArgs[arg.name], arg.name, arg.name, arg.constraint, violations);
+          }
+
+          if (violations.length > 0) {
+            throw new GraphQLError('Invalid input provided', {
+              extensions: { code: 'VALIDATION_ERROR', validationErrors: violations },
+            });
+          }
+
+          return resolve(source, fieldArgs, context, info);
+        }) as T;
+
+      return {
+        ...fieldConfig,
+        resolve: withValidation(fieldConfig.resolve ?? defaultFieldResolver),
+        ...(fieldConfig.subscribe && { subscribe: withValidation(fieldConfig.subscribe) }),
+      };
+    },
+  });
+};
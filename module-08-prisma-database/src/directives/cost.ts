@@ -0,0 +1,40 @@
+import { GraphQLField, GraphQLSchema, getNamedType, isLeafType } from 'graphql';
+import { getDirective } from '@graphql-tools/utils';
+
+// Query cost directive
+//
+// @cost overrides the cost of a field in the query complexity analysis
+// (src/complexity):
+//
+//   type PostEdge {
+//     node: Post! @cost(weight: 0)
+//   }
+//
+// weight      - cost of the field itself. Defaults to 1 for fields returning
+//               an object (usually a resolver / database call) and 0 for
+//               scalars and enums.
+// assumedSize - expected number of items of a list field without `first` /
+//               `last` arguments. Defaults to 1.
+//
+// Unlike @auth and @constraint this doesn't wrap resolvers - the analysis
+// reads it before execution starts.
+export const costDirectiveTypeDefs = /* GraphQL */ `
+  directive @cost(weight: Int, assumedSize: Int) on FIELD_DEFINITION
+`;
+
+export interface FieldCost {
+  weight: number;
+  assumedSize: number;
+}
+
+export const getFieldCost = (
+  schema: GraphQLSchema,
+  field: GraphQLField<unknown, unknown>
+): FieldCost => {
+  const cost = getDirective(schema, field, 'cost')?.[0] as Partial<FieldCost> | undefined;
+
+  return {
+    weight: cost?.weight ?? (isLeafType(getNamedType(field.type)) ? 0 : 1),
+    assumedSize: cost?.assumedSize ?? 1,
+  };
+};
@@ -0,0 +1,70 @@
+import { GraphQLError } from 'graphql';
+
+// Error codes (same names as the module-07 error hierarchy)
+export enum ErrorCode {
+  // Validation errors
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+
+  // Resource errors
+  NOT_FOUND = 'NOT_FOUND',
+  ALREADY_EXISTS = 'ALREADY_EXISTS',
+  CONFLICT = 'CONFLICT',
+}
+
+// Base custom error class
+export class BaseError extends GraphQLError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    extensions?: Record<string, unknown>
+  ) {
+    super(message, {
+      extensions: {
+        code,
+        ...extensions,
+      },
+    });
+  }
+}
+
+// Validation Errors
+export class ValidationError extends BaseError {
+  constructor(message: string, field?: string, value?: unknown) {
+    super(message, ErrorCode.VALIDATION_ERROR, {
+      field,
+      invalidValue: value,
+    });
+  }
+}
+
+// Resource Errors
+export class NotFoundError extends BaseError {
+  constructor(resource: string, id?: string) {
+    const message = id
+      ? `${resource} with id "${id}" not found`
+      : `${resource} not found`;
+    super(message, ErrorCode.NOT_FOUND, {
+      resource,
+      resourceId: id,
+    });
+  }
+}
+
+export class AlreadyExistsError extends BaseError {
+  constructor(resource: string, field: string, value?: string) {
+    const message = value !== undefined
+      ? `${resource} with ${field} "${value}" already exists`
+      : `${resource} with this ${field} already exists`;
+    super(message, ErrorCode.ALREADY_EXISTS, {
+      resource,
+      field,
+      value,
+    });
+  }
+}
+
+export class ConflictError extends BaseError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, ErrorCode.CONFLICT, details);
+  }
+}
@@ -0,0 +1,65 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { AlreadyExistsError, ConflictError, NotFoundError } from './index.js';
+
+// Read `where` or `data` from the arguments of the Prisma call that failed -
+// used to put the offending value / id into the translated error
+const argument = (args: unknown, name: 'where' | 'data'): Record<string, unknown> => {
+  const value = typeof args === 'object' && args !== null
+    ? (args as Record<string, unknown>)[name]
+    : undefined;
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+};
+
+// P2002 reports the violated unique constraint as a list of fields (or, on
+// some databases, as the index name, e.g. "users_email_key")
+const uniqueField = (target: unknown): string => {
+  if (Array.isArray(target) && target.length > 0) {
+    return target.join(', ');
+  }
+  if (typeof target === 'string') {
+    return target.replace(/^[a-z]+_/, '').replace(/_key$/, '');
+  }
+  return 'value';
+};
+
+// Translate Prisma known request errors into the typed error hierarchy.
+// Anything else is returned unchanged (and is masked as an internal error).
+export const translatePrismaError = (
+  error: unknown,
+  model: string,
+  args: unknown
+): unknown => {
+  if (!(error instanceof PrismaClientKnownRequestError)) {
+    return error;
+  }
+
+  switch (error.code) {
+    // Unique constraint failed
+    case 'P2002': {
+      const field = uniqueField(error.meta?.target);
+      const value = argument(args, 'data')[field];
+      return new AlreadyExistsError(
+        model,
+        field,
+        typeof value === 'string' ? value : undefined
+      );
+    }
+
+    // Record to update/delete does not exist
+    case 'P2025': {
+      const id = argument(args, 'where').id;
+      return new NotFoundError(model, typeof id === 'string' ? id : undefined);
+    }
+
+    // Foreign key constraint failed - the record points at (or is still
+    // referenced by) a row that doesn't allow the change
+    case 'P2003':
+      return new ConflictError(`${model} references a record that does not exist or is still in use`, {
+        resource: model,
+        field: error.meta?.field_name,
+      });
+
+    default:
+      return error;
+  }
+};
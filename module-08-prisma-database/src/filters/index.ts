@@ -0,0 +1,243 @@
+import { GraphQLError } from 'graphql';
+import { AuthUser, OrderByInput } from '../types/index.js';
+import { CONNECTION_ORDER } from '../utils/pagination.js';
+
+type Model = 'User' | 'Post' | 'Comment';
+
+type FieldKind =
+  | 'string'
+  | 'date'
+  | 'boolean'
+  | 'role'
+  | { one: Model }   // To-one relation: author, post
+  | { many: Model }; // To-many relation: posts, comments
+
+// The only fields a filter can reach. Anything else in the input is
+// rejected, so a client can't filter on columns the schema doesn't expose
+// (passwordHash, sessions, ...).
+const FILTER_FIELDS: Record<Model, Record<string, FieldKind>> = {
+  User: {
+    name: 'string',
+    role: 'role',
+    createdAt: 'date',
+    posts: { many: 'Post' },
+  },
+  Post: {
+    title: 'string',
+    content: 'string',
+    published: 'boolean',
+    createdAt: 'date',
+    author: { one: 'User' },
+    comments: { many: 'Comment' },
+  },
+  Comment: {
+    content: 'string',
+    createdAt: 'date',
+    author: { one: 'User' },
+    post: { one: 'Post' },
+  },
+};
+
+const SORT_FIELDS: Record<Model, string[]> = {
+  User: ['name', 'createdAt'],
+  Post: ['title', 'createdAt', 'updatedAt'],
+  Comment: ['createdAt'],
+};
+
+const STRING_OPERATORS = ['equals', 'in', 'contains', 'startsWith', 'endsWith'];
+const DATE_OPERATORS = ['equals', 'gt', 'gte', 'lt', 'lte'];
+const LIST_OPERATORS = ['some', 'every', 'none'];
+const COMBINATORS = ['AND', 'OR', 'NOT'];
+
+// Nesting limit for AND / OR / NOT and relation filters - each level can
+// add a join or subquery
+export const MAX_FILTER_DEPTH = 5;
+
+// Longest `in` list, and most conditions in one AND / OR / NOT
+export const MAX_FILTER_VALUES = 100;
+
+// Most orderBy items
+export const MAX_ORDER_BY = 3;
+
+const invalid = (message: string, field: string) => {
+  return new GraphQLError(message, {
+    extensions: { code: 'VALIDATION_ERROR', field },
+  });
+};
+
+type Input = Record<string, unknown>;
+
+// Copy the operators a field supports, dropping nulls
+const translateOperators = (
+  filter: Input,
+  operators: string[],
+  path: string,
+  convert: (value: unknown, path: string) => unknown
+) => {
+  const result: Input = {};
+
+  for (const [operator, value] of Object.entries(filter)) {
+    if (value === null || value === undefined) continue;
+    if (!operators.includes(operator)) {
+      throw invalid(`Unknown filter "${path}.${operator}"`, path);
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length > MAX_FILTER_VALUES) {
+        throw invalid(`"${path}.${operator}" accepts at most ${MAX_FILTER_VALUES} values`, path);
+      }
+      result[operator] = value.map((item) => convert(item, `${path}.${operator}`));
+    } else {
+      result[operator] = convert(value, `${path}.${operator}`);
+    }
+  }
+
+  return result;
+};
+
+const toDate = (value: unknown, path: string): Date => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw invalid(`"${path}" must be an ISO-8601 date`, path);
+  }
+  return date;
+};
+
+// Posts the viewer can read: unpublished ones only by their author and
+// admins. Relation filters are limited to them - otherwise a filter like
+// `author: { posts: { some: { published: false, content: { contains: "x" } } } }`
+// would tell anyone what drafts contain. Null when nothing is hidden.
+export const readablePosts = (viewer: AuthUser | null): Input | null => {
+  if (viewer?.role === 'admin') {
+    return null;
+  }
+  return viewer ? { OR: [{ published: true }, { authorId: viewer.id }] } : { published: true };
+};
+
+// Rows a relation filter on `model` looks at: not soft-deleted, and for posts
+// readable by the viewer. (Top-level queries get `deletedAt: null` from the
+// Prisma client.)
+const relationScope = (model: Model, viewer: AuthUser | null): Input => {
+  const posts = model === 'Post' ? readablePosts(viewer) : null;
+  return posts ? { AND: [{ deletedAt: null }, posts] } : { deletedAt: null };
+};
+
+// `some` / `none` only look at rows in scope, and `every` holds when each row
+// is out of scope or matches
+const scopeRelated = (filter: Input, scope: Input): Input => {
+  const result: Input = {};
+  if (filter.some) result.some = { AND: [filter.some, scope] };
+  if (filter.none) result.none = { AND: [filter.none, scope] };
+  if (filter.every) result.every = { OR: [{ NOT: scope }, filter.every] };
+  return result;
+};
+
+const translateWhere = (
+  model: Model,
+  input: Input,
+  viewer: AuthUser | null,
+  path: string,
+  depth: number
+): Input => {
+  if (depth > MAX_FILTER_DEPTH) {
+    throw invalid(`Filters can be nested at most ${MAX_FILTER_DEPTH} levels deep`, path);
+  }
+
+  const where: Input = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if (value === null || value === undefined) continue;
+    const fieldPath = `${path}.${key}`;
+
+    if (COMBINATORS.includes(key)) {
+      const conditions = value as Input[];
+      if (conditions.length > MAX_FILTER_VALUES) {
+        throw invalid(`"${fieldPath}" accepts at most ${MAX_FILTER_VALUES} conditions`, fieldPath);
+      }
+      where[key] = conditions.map((condition, index) =>
+        translateWhere(model, condition, viewer, `${fieldPath}[${index}]`, depth + 1)
+      );
+      continue;
+    }
+
+    const kind = FILTER_FIELDS[model][key];
+    if (kind === undefined) {
+      throw invalid(`Unknown filter "${fieldPath}"`, fieldPath);
+    }
+
+    if (kind === 'string') {
+      where[key] = translateOperators(value as Input, STRING_OPERATORS, fieldPath, String);
+    } else if (kind === 'date') {
+      where[key] = translateOperators(value as Input, DATE_OPERATORS, fieldPath, toDate);
+    } else if (kind === 'boolean') {
+      where[key] = Boolean(value);
+    } else if (kind === 'role') {
+      // Roles are stored lowercase ("admin" / "user")
+      where[key] = String(value).toLowerCase();
+    } else if ('one' in kind) {
+      const related = translateWhere(kind.one, value as Input, viewer, fieldPath, depth + 1);
+      const posts = kind.one === 'Post' ? readablePosts(viewer) : null;
+      where[key] = posts ? { AND: [related, posts] } : related;
+    } else {
+      where[key] = scopeRelated(
+        translateOperators(value as Input, LIST_OPERATORS, fieldPath, (filter, filterPath) =>
+          translateWhere(kind.many, filter as Input, viewer, filterPath, depth + 1)
+        ),
+        relationScope(kind.many, viewer)
+      );
+    }
+  }
+
+  return where;
+};
+
+// Translate a `where` argument into a Prisma where clause.
+//
+// The GraphQL input types already restrict the shape; this re-checks every
+// key against an allow-list, converts values (dates, roles) and bounds the
+// nesting depth and list sizes, so no client input reaches Prisma as-is.
+// Relation filters only see posts `viewer` can read.
+export const translateFilter = (
+  model: Model,
+  where: object | null | undefined,
+  viewer: AuthUser | null
+): Input => {
+  if (!where) {
+    return {};
+  }
+  return translateWhere(model, where as Input, viewer, 'where', 1);
+};
+
+// Translate an `orderBy` argument into a Prisma orderBy list.
+//
+// `id` is always added as the last sort key so rows with equal values keep a
+// stable order and cursors never skip or repeat rows. Without orderBy the
+// connection's default order (newest first) is used.
+export const translateOrderBy = (
+  model: Model,
+  orderBy: OrderByInput[] | null | undefined
+): Array<Partial<Record<string, 'asc' | 'desc'>>> => {
+  if (!orderBy || orderBy.length === 0) {
+    return CONNECTION_ORDER;
+  }
+
+  if (orderBy.length > MAX_ORDER_BY) {
+    throw invalid(`"orderBy" accepts at most ${MAX_ORDER_BY} fields`, 'orderBy');
+  }
+
+  const order = orderBy.map((item, index) => {
+    const entries = Object.entries(item).filter(([, direction]) => direction != null);
+    if (entries.length !== 1) {
+      throw invalid(`"orderBy[${index}]" must set exactly one field`, 'orderBy');
+    }
+
+    const [field, direction] = entries[0];
+    if (!SORT_FIELDS[model].includes(field)) {
+      throw invalid(`Cannot order by "${field}"`, 'orderBy');
+    }
+
+    return { [field]: direction === 'ASC' ? ('asc' as const) : ('desc' as const) };
+  });
+
+  return [...order, { id: 'desc' as const }];
+};
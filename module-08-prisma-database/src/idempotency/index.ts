@@ -0,0 +1,17 @@
+import { prisma } from '../db/prisma.js';
+import { IdempotencyStore } from '../types/index.js';
+import { createMemoryIdempotencyStore } from './memory.js';
+import { createPrismaIdempotencyStore } from './prisma.js';
+
+export { useIdempotency } from './plugin.js';
+
+// Idempotency key backend (override via environment variable)
+// prisma - idempotency_keys table, shared by every replica
+// memory - this process only, lost on restart
+const IDEMPOTENCY_BACKEND = (process.env.IDEMPOTENCY_BACKEND || 'prisma') as 'memory' | 'prisma';
+
+export const createIdempotencyStore = (): IdempotencyStore => {
+  return IDEMPOTENCY_BACKEND === 'memory'
+    ? createMemoryIdempotencyStore()
+    : createPrismaIdempotencyStore(prisma);
+};
@@ -0,0 +1,52 @@
+import type { Database } from '../db/prisma.js';
+import { AlreadyExistsError } from '../errors/index.js';
+import { IdempotencyRecord, IdempotencyStore } from '../types/index.js';
+
+// Database store - keys are shared by every replica using the same database.
+// The unique index on (key, userId, operation) decides which of two
+// concurrent requests gets the claim.
+export const createPrismaIdempotencyStore = (prisma: Database): IdempotencyStore => {
+  const store: IdempotencyStore = {
+    claim: async (scope, fingerprint, expiresAt) => {
+      // An expired record (finished long ago, or abandoned by a crashed
+      // request) no longer holds the key
+      await prisma.idempotencyKey.deleteMany({
+        where: { ...scope, expiresAt: { lte: new Date() } },
+      });
+
+      try {
+        await prisma.idempotencyKey.create({
+          data: { ...scope, fingerprint, expiresAt },
+        });
+        return null;
+      } catch (error) {
+        if (!(error instanceof AlreadyExistsError)) {
+          throw error;
+        }
+      }
+
+      const existing: IdempotencyRecord | null = await prisma.idempotencyKey.findUnique({
+        where: { key_userId_operation: scope },
+        select: { fingerprint: true, response: true },
+      });
+
+      // Released between our insert and read - try again
+      return existing ?? store.claim(scope, fingerprint, expiresAt);
+    },
+
+    complete: async (scope, response, expiresAt) => {
+      await prisma.idempotencyKey.updateMany({
+        where: scope,
+        data: { response, expiresAt },
+      });
+    },
+
+    release: async (scope) => {
+      await prisma.idempotencyKey.deleteMany({
+        where: { ...scope, response: null },
+      });
+    },
+  };
+
+  return store;
+};
@@ -1,35 +1,134 @@
 import { createServer } from 'node:http';
+import { fileURLToPath } from 'node:url';
 import { createYoga } from 'graphql-yoga';
+import { ExecutionArgs, GraphQLError } from 'graphql';
+import { WebSocketServer } from 'ws';
+import { SubscribePayload } from 'graphql-ws';
+import { useServer } from 'graphql-ws/use/ws';
 import { schema } from './schema/index.js';
 import { createContext } from './context/index.js';
+import { prisma } from './db/prisma.js';
+import { closePubSub } from './pubsub/index.js';
+import { useHealthChecks } from './health.js';
+import { handleShutdownSignals } from './shutdown.js';
+import { startPurgeJob } from './purge.js';
+import { logger } from './services/logger.js';
+import { createIdempotencyStore, useIdempotency } from './idempotency/index.js';
+import { useQueryLimits } from './complexity/plugin.js';
+import { setupTracing, useTracing } from './tracing/index.js';
+import { useMetrics } from './metrics/plugin.js';
+import { useResponseCaching } from './cache/plugin.js';
+import {
+  PersistedOperationsMode,
+  loadManifest,
+  manifestOperationNames,
+  usePersistedOperationsMode,
+} from './persisted-operations.js';
+
+// Persisted operations (override via environment variables) - see
+// src/persisted-operations.ts for what off / permissive / strict accept
+const PERSISTED_OPERATIONS = (process.env.PERSISTED_OPERATIONS || 'off') as PersistedOperationsMode;
+const PERSISTED_OPERATIONS_MANIFEST =
+  process.env.PERSISTED_OPERATIONS_MANIFEST || 'persisted-operations.json';
+
+// Graceful shutdown timings in milliseconds (override via environment variables)
+const SHUTDOWN_DRAIN_DELAY_MS = Number(process.env.SHUTDOWN_DRAIN_DELAY_MS || 5000);
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS || 10000);
+
+// Soft-deleted users, posts and comments are hard-deleted after this many
+// days (override via environment variables)
+const SOFT_DELETE_RETENTION_DAYS = Number(process.env.SOFT_DELETE_RETENTION_DAYS || 30);
+const PURGE_INTERVAL_MS = Number(process.env.PURGE_INTERVAL_MS || 60 * 60 * 1000);
+
+// OpenTelemetry - TRACING_EXPORTER selects where spans go (see src/tracing)
+const shutdownTracing = setupTracing();
+
+// Set on SIGTERM / SIGINT - /readyz answers 503 from then on
+let draining = false;
 
 const yoga = createYoga({
   schema,
   context: createContext,
+  plugins: [
+    // Answered before anything else, so probes aren't traced or counted
+    useHealthChecks({
+      prisma,
+      migrationsDir: fileURLToPath(new URL('../prisma/migrations', import.meta.url)),
+      isDraining: () => draining,
+      log: logger.child({ component: 'health' }),
+    }),
+    // First, so they also see operations the plugins below reject
+    useTracing(),
+    useMetrics({
+      endpoint: '/metrics',
+      operationNames: manifestOperationNames(PERSISTED_OPERATIONS_MANIFEST),
+    }),
+    usePersistedOperationsMode({
+      mode: PERSISTED_OPERATIONS,
+      manifestPath: PERSISTED_OPERATIONS_MANIFEST,
+    }),
+    // After persisted operations, which turn an operation id into the query.
+    // Cache hits are answered here and skip everything below.
+    useResponseCaching({ max: 1000 }),
+    // Reject queries that would fan out into too many database calls
+    // (e.g. posts -> author -> posts -> ...) before any resolver runs
+    useQueryLimits({
+      maxDepth: 10,
+      maxCost: 5000,
+      maxAliases: 15,
+      maxRootFields: 10,
+    }),
+    // Retried mutations with the same Idempotency-Key header are replayed,
+    // not run twice. Login/refresh responses contain tokens and are never stored.
+    useIdempotency({
+      store: createIdempotencyStore(),
+      exclude: ['login', 'refreshToken'],
+    }),
+  ],
   graphiql: {
     title: 'GraphQL Prisma Demo',
     defaultQuery: `# Prisma Database Demo
 #
-# Test tokens (add to HTTP Headers):
-# { "Authorization": "Bearer admin-token" }
-# { "Authorization": "Bearer john-token" }
-# { "Authorization": "Bearer jane-token" }
+# Log in to get a token (seeded users share the password "password123"):
+# mutation Login {
+#   login(email: "john@example.com", password: "password123") {
+#     token
+#     expiresAt
+#   }
+# }
+#
+# Then add it to HTTP Headers:
+# { "Authorization": "Bearer <token>" }
 
-# Get all published posts
+# Get the first page of published posts
+# (pass pageInfo.endCursor as "after" to fetch the next page)
 query GetPosts {
-  posts {
-    id
-    title
-    published
-    author {
-      name
-    }
-    comments {
-      content
-      author {
-        name
+  posts(first: 10) {
+    edges {
+      cursor
+      node {
+        id
+        title
+        published
+        author {
+          name
+        }
+        comments(first: 5) {
+          edges {
+            node {
+              content
+              author {
+                name
+              }
+            }
+          }
+        }
       }
     }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
   }
 }
 
@@ -39,9 +138,13 @@ query GetPosts {
 #     id
 #     name
 #     email
-#     posts {
-#       title
-#       published
+#     posts(first: 5) {
+#       edges {
+#         node {
+#           title
+#           published
+#         }
+#       }
 #     }
 #   }
 # }
@@ -61,21 +164,139 @@ query GetPosts {
 #     }
 #   }
 # }
+
+# Watch for newly published posts (runs over SSE in GraphiQL)
+# subscription OnPostPublished {
+#   postPublished {
+#     id
+#     title
+#     author {
+#       name
+#     }
+#   }
+# }
 `,
   },
 });
 
 const server = createServer(yoga);
 
+// WebSocket transport for subscriptions (graphql-ws protocol), served on the
+// same port and path as HTTP. Each operation runs through Yoga's envelop so
+// it gets the same schema, plugins and context as an HTTP request.
+const wsServer = new WebSocketServer({ server, path: yoga.graphqlEndpoint });
+
+// WebSocket operations don't go through Yoga's HTTP request handling, so the
+// persisted operations plugins never see them - strict mode is enforced here
+const socketManifest =
+  PERSISTED_OPERATIONS === 'strict' ? loadManifest(PERSISTED_OPERATIONS_MANIFEST) : null;
+
+const persistedSocketQuery = (params: SubscribePayload): string | null => {
+  const hash = (params.extensions?.persistedQuery as { sha256Hash?: unknown } | undefined)
+    ?.sha256Hash;
+  return typeof hash === 'string' ? socketManifest?.get(hash) ?? null : null;
+};
+
+// onSubscribe passes Yoga's enveloped execute/subscribe along as the root value
+type EnvelopedRoot = Pick<ReturnType<typeof yoga.getEnveloped>, 'execute' | 'subscribe'>;
+
+const envelopedRoot = (args: ExecutionArgs): EnvelopedRoot => args.rootValue as EnvelopedRoot;
+
+useServer(
+  {
+    execute: (args: ExecutionArgs) => envelopedRoot(args).execute(args),
+    subscribe: (args: ExecutionArgs) => envelopedRoot(args).subscribe(args),
+    onSubscribe: async (ctx, _id, params) => {
+      const { schema, execute, subscribe, contextFactory, parse, validate } = yoga.getEnveloped({
+        ...ctx,
+        req: ctx.extra.request,
+        socket: ctx.extra.socket,
+        params,
+      });
+
+      // In strict mode the client sends the hash in extensions.persistedQuery
+      // (and an empty query) - only manifest operations may subscribe
+      const query = socketManifest ? persistedSocketQuery(params) : params.query;
+      if (query === null) {
+        return [
+          new GraphQLError('PersistedQueryNotFound', {
+            extensions: { code: 'PERSISTED_QUERY_NOT_IN_LIST' },
+          }),
+        ];
+      }
+
+      const document = parse(query);
+      const errors = validate(schema, document);
+      if (errors.length > 0) {
+        return errors;
+      }
+
+      // An invalid token in connectionParams fails the operation, not the socket
+      let contextValue;
+      try {
+        contextValue = await contextFactory();
+      } catch (error) {
+        if (error instanceof GraphQLError) {
+          return [error];
+        }
+        throw error;
+      }
+
+      return {
+        schema,
+        operationName: params.operationName,
+        document,
+        variableValues: params.variables,
+        contextValue,
+        rootValue: { execute, subscribe } satisfies EnvelopedRoot,
+      };
+    },
+  },
+  wsServer
+);
+
+const stopPurgeJob = startPurgeJob({
+  prisma,
+  retentionMs: SOFT_DELETE_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  intervalMs: PURGE_INTERVAL_MS,
+});
+
+handleShutdownSignals({
+  server,
+  drainDelayMs: SHUTDOWN_DRAIN_DELAY_MS,
+  timeoutMs: SHUTDOWN_TIMEOUT_MS,
+  onDrain: () => {
+    draining = true;
+  },
+  // Open WebSockets would keep the server from closing - tell subscribers
+  // to reconnect (to another replica)
+  onClose: () => {
+    for (const client of wsServer.clients) {
+      client.close(1001, 'Server shutting down');
+    }
+    wsServer.close();
+  },
+  cleanup: async () => {
+    stopPurgeJob();
+    await closePubSub();
+    await shutdownTracing();
+    await prisma.$disconnect();
+  },
+  log: logger.child({ component: 'shutdown' }),
+});
+
 const PORT = process.env.PORT || 4000;
 
 server.listen(PORT, () => {
   console.log(`🚀 Server is running on http://localhost:${PORT}/graphql`);
+  console.log(`📈 Metrics: http://localhost:${PORT}/metrics`);
+  console.log(`❤️  Health: http://localhost:${PORT}/healthz, readiness: http://localhost:${PORT}/readyz`);
+  console.log(`📡 Subscriptions: SSE on the same URL, WebSocket at ws://localhost:${PORT}/graphql`);
   console.log(`
-📝 Test tokens:
-   - Admin: Bearer admin-token
-   - John:  Bearer john-token
-   - Jane:  Bearer jane-token
+🔐 Log in with the login mutation (password: password123):
+   - Admin: admin@example.com
+   - John:  john@example.com
+   - Jane:  jane@example.com
 
 🗄️  Database: SQLite (prisma/dev.db)
 
@@ -0,0 +1,128 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { execute, parse } from 'graphql';
+import { PrismaClient } from '@prisma/client';
+import { schema } from '../schema/index.js';
+import { extendClient } from '../db/prisma.js';
+import { createMemoryPubSub } from '../pubsub/index.js';
+import { createLoaders } from './index.js';
+import { GraphQLContext } from '../types/index.js';
+
+// Runs against the database in DATABASE_URL (npm run db:push) - the test
+// writes its own author, posts and comments and removes them afterwards
+
+const POSTS = 20;
+const COMMENTS_PER_POST = 5;
+
+const FEED = parse(/* GraphQL */ `
+  query Feed($first: Int!, $author: String!) {
+    posts(first: $first, where: { author: { name: { equals: $author } } }) {
+      edges {
+        node {
+          title
+          author { name }
+          comments(first: 2) {
+            edges {
+              node {
+                content
+                author { name }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`);
+
+// A client that records the SQL of every statement it sends
+const base = new PrismaClient({ log: [{ emit: 'event', level: 'query' }] });
+const statements: string[] = [];
+base.$on('query', (event: { query: string }) => statements.push(event.query));
+const db = extendClient(base);
+
+const authorName = `Loader test ${randomUUID()}`;
+
+const runFeed = async (first: number) => {
+  const contextValue: GraphQLContext = {
+    prisma: db,
+    currentUser: null,
+    loaders: createLoaders(db),
+    pubsub: createMemoryPubSub(),
+    requestId: `test_${first}`,
+  };
+
+  statements.length = 0;
+  const result = await execute({
+    schema,
+    document: FEED,
+    variableValues: { first, author: authorName },
+    contextValue,
+  });
+  assert.equal(result.errors, undefined);
+
+  return { result, statements: [...statements] };
+};
+
+describe('relation loaders', () => {
+  let authorId: string;
+
+  before(async () => {
+    const author = await base.user.create({
+      data: { email: `${randomUUID()}@example.com`, name: authorName },
+    });
+    authorId = author.id;
+
+    for (let i = 0; i < POSTS; i++) {
+      await base.post.create({
+        data: {
+          title: `Post ${i}`,
+          content: 'Content',
+          published: true,
+          authorId,
+          comments: {
+            create: Array.from({ length: COMMENTS_PER_POST }, (_, j) => ({
+              content: `Comment ${j}`,
+              authorId,
+            })),
+          },
+        },
+      });
+    }
+  });
+
+  after(async () => {
+    // Posts and comments go with the author (onDelete: Cascade)
+    await base.user.delete({ where: { id: authorId } });
+    await base.$disconnect();
+  });
+
+  it('loads a nested feed with the same statements for any page size', async () => {
+    const small = await runFeed(1);
+    const large = await runFeed(POSTS);
+
+    const { edges } = large.result.data?.posts as {
+      edges: Array<{ node: { comments: { edges: unknown[] } } }>;
+    };
+    assert.equal(edges.length, POSTS);
+    assert.ok(edges.every((edge) => edge.node.comments.edges.length === 2));
+
+    assert.equal(large.statements.length, small.statements.length);
+  });
+
+  it('never reads every comment of every post', async () => {
+    const { statements: sql } = await runFeed(POSTS);
+
+    // Comments are read as a page of ids per post, then by id - a statement
+    // on the comments table without either would load all of them
+    const comments = sql.filter((statement) => /FROM\s+[`"\w.]*comments/i.test(statement));
+    assert.ok(comments.length > 0);
+    for (const statement of comments) {
+      assert.ok(
+        /ROW_NUMBER\(\)/.test(statement) || /"id"\s+IN\s*\(/i.test(statement),
+        `unbounded comments query: ${statement}`
+      );
+    }
+  });
+});
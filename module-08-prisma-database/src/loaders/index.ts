@@ -0,0 +1,213 @@
+import DataLoader from 'dataloader';
+import type { Database } from '../db/prisma.js';
+import {
+  Connection,
+  ConnectionArgs,
+  DbComment,
+  DbPost,
+  DbUser,
+} from '../types/index.js';
+import {
+  PagePlan,
+  PageQuery,
+  CONNECTION_ORDER,
+  buildConnection,
+  planPage,
+} from '../utils/pagination.js';
+import { INCLUDE_DELETED } from '../db/soft-delete.js';
+
+// Key for a paginated relation: the parent row plus the page the client asked for
+export interface RelationPageKey {
+  parentId: string;
+  args: ConnectionArgs;
+}
+
+// Normalise connection args so equivalent pages share a cache entry and a batch
+const pageArgsKey = ({ first, after, last, before }: ConnectionArgs): string => {
+  return JSON.stringify([first ?? null, after ?? null, last ?? null, before ?? null]);
+};
+
+// Return one result per key, in key order, as DataLoader requires
+const orderByKeys = <T>(
+  keys: readonly string[],
+  rows: T[],
+  getKey: (row: T) => string
+): Array<T | null> => {
+  const byKey = new Map(rows.map((row) => [getKey(row), row]));
+  return keys.map((key) => byKey.get(key) ?? null);
+};
+
+const groupByKeys = <T>(
+  keys: readonly string[],
+  rows: T[],
+  getKey: (row: T) => string
+): T[][] => {
+  const groups = new Map<string, T[]>(keys.map((key) => [key, []]));
+  for (const row of rows) {
+    groups.get(getKey(row))?.push(row);
+  }
+  return keys.map((key) => groups.get(key) ?? []);
+};
+
+// Requests for the same page share a batch. A cursor names a row of one
+// parent's children, so a request with `after`/`before` is only batched with
+// requests for that same parent.
+const batchKey = ({ parentId, args }: RelationPageKey): string => {
+  const pageKey = pageArgsKey(args);
+  return args.after != null || args.before != null ? `${parentId}:${pageKey}` : pageKey;
+};
+
+// Ids of each parent's first `take` children in CONNECTION_ORDER - or, for a
+// negative `take` (backward page), its last -take children. ROW_NUMBER()
+// numbers every parent's children separately, so the database returns at
+// most `take` rows per parent however many children there are. Raw queries
+// skip the soft-delete filter, so deleted children are left out here.
+const pageIdsByParent = async (
+  prisma: Database,
+  table: 'posts' | 'comments',
+  parentColumn: 'authorId' | 'postId',
+  parentIds: string[],
+  take: number
+): Promise<string[]> => {
+  const direction = take < 0 ? 'ASC' : 'DESC';
+  const rows: Array<{ id: string }> = await prisma.$queryRawUnsafe(
+    `SELECT "id" FROM (
+      SELECT "id", ROW_NUMBER() OVER (
+        PARTITION BY "${parentColumn}" ORDER BY "createdAt" ${direction}, "id" ${direction}
+      ) AS "position"
+      FROM "${table}"
+      WHERE "${parentColumn}" IN (${parentIds.map(() => '?').join(', ')}) AND "deletedAt" IS NULL
+    ) WHERE "position" <= ?`,
+    ...parentIds,
+    Math.abs(take)
+  );
+  return rows.map((row) => row.id);
+};
+
+// Children grouped by parent id
+const byParent = <T>(parentIds: string[], rows: T[], getParentId: (row: T) => string) => {
+  const groups = groupByKeys(parentIds, rows, getParentId);
+  return new Map(parentIds.map((parentId, index) => [parentId, groups[index]]));
+};
+
+// Build a loader for a paginated one-to-many relation.
+//
+// Keys are grouped by batchKey and every group is fetched at once for all
+// of its parents, so a list of N parents costs the same queries as one.
+// `fetchPages` gets a cursor only for a single parent (see batchKey).
+const createRelationPageLoader = <T extends { id: string }>(
+  fetchPages: (parentIds: string[], page: PageQuery) => Promise<Map<string, T[]>>
+) => {
+  return new DataLoader<RelationPageKey, Connection<T>, string>(
+    async (keys) => {
+      const groups = new Map<string, { plan: PagePlan; indexes: number[] }>();
+      const results: Array<Connection<T> | Error> = new Array(keys.length);
+
+      keys.forEach((key, index) => {
+        const groupKey = batchKey(key);
+        let group = groups.get(groupKey);
+
+        if (!group) {
+          try {
+            group = { plan: planPage(key.args), indexes: [] };
+          } catch (error) {
+            results[index] = error as Error;
+            return;
+          }
+          groups.set(groupKey, group);
+        }
+
+        group.indexes.push(index);
+      });
+
+      await Promise.all(
+        [...groups.values()].map(async ({ plan, indexes }) => {
+          const parentIds = [...new Set(indexes.map((index) => keys[index].parentId))];
+          const pages = await fetchPages(parentIds, plan.query);
+
+          for (const index of indexes) {
+            results[index] = buildConnection(pages.get(keys[index].parentId) ?? [], plan);
+          }
+        })
+      );
+
+      return results;
+    },
+    { cacheKeyFn: (key) => `${key.parentId}:${pageArgsKey(key.args)}` }
+  );
+};
+
+// Create a fresh set of loaders - called once per request from createContext
+// so cached rows never leak between users or outlive a mutation.
+//
+// The by-id loaders also return soft-deleted rows: a relation resolves to
+// whatever it points at (a deleted post seen with includeDeleted still has an
+// author). Lists and paginated relations only contain rows that aren't deleted.
+export const createLoaders = (prisma: Database) => ({
+  // Post.author, Comment.author
+  userById: new DataLoader<string, DbUser | null>(async (ids) => {
+    const users: DbUser[] = await prisma.user.findMany({
+      where: { id: { in: [...ids] }, ...INCLUDE_DELETED },
+    });
+    return orderByKeys(ids, users, (user) => user.id);
+  }),
+
+  // Comment.post, @isOwner(resource: POST)
+  postById: new DataLoader<string, DbPost | null>(async (ids) => {
+    const posts: DbPost[] = await prisma.post.findMany({
+      where: { id: { in: [...ids] }, ...INCLUDE_DELETED },
+    });
+    return orderByKeys(ids, posts, (post) => post.id);
+  }),
+
+  // @isOwner(resource: COMMENT)
+  commentById: new DataLoader<string, DbComment | null>(async (ids) => {
+    const comments: DbComment[] = await prisma.comment.findMany({
+      where: { id: { in: [...ids] }, ...INCLUDE_DELETED },
+    });
+    return orderByKeys(ids, comments, (comment) => comment.id);
+  }),
+
+  // User.comments
+  commentsByAuthor: new DataLoader<string, DbComment[]>(async (authorIds) => {
+    const comments: DbComment[] = await prisma.comment.findMany({
+      where: { authorId: { in: [...authorIds] } },
+      orderBy: CONNECTION_ORDER,
+    });
+    return groupByKeys(authorIds, comments, (comment) => comment.authorId);
+  }),
+
+  // User.posts - a page after a cursor is one author's, and Prisma can apply
+  // the cursor and take itself. Pages of many authors are limited per author
+  // by pageIdsByParent first.
+  postsByAuthor: createRelationPageLoader<DbPost>(async (authorIds, page) => {
+    const posts: DbPost[] = page.cursor
+      ? await prisma.post.findMany({
+          where: { authorId: authorIds[0] },
+          orderBy: CONNECTION_ORDER,
+          ...page,
+        })
+      : await prisma.post.findMany({
+          where: { id: { in: await pageIdsByParent(prisma, 'posts', 'authorId', authorIds, page.take) } },
+          orderBy: CONNECTION_ORDER,
+        });
+    return byParent(authorIds, posts, (post) => post.authorId);
+  }),
+
+  // Post.comments - same as User.posts
+  commentsByPost: createRelationPageLoader<DbComment>(async (postIds, page) => {
+    const comments: DbComment[] = page.cursor
+      ? await prisma.comment.findMany({
+          where: { postId: postIds[0] },
+          orderBy: CONNECTION_ORDER,
+          ...page,
+        })
+      : await prisma.comment.findMany({
+          where: { id: { in: await pageIdsByParent(prisma, 'comments', 'postId', postIds, page.take) } },
+          orderBy: CONNECTION_ORDER,
+        });
+    return byParent(postIds, comments, (comment) => comment.postId);
+  }),
+});
+
+export type Loaders = ReturnType<typeof createLoaders>;
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Prometheus metrics, served in text format at /metrics.
+// operationName is only set for known operations (see useMetrics) - client
+// supplied names would give an unbounded number of series.
+export const registry = new Registry();
+
+// Process metrics (CPU, memory, event loop lag, ...)
+collectDefaultMetrics({ register: registry });
+
+export const operationDuration = new Histogram({
+  name: 'graphql_operation_duration_seconds',
+  help: 'Time spent executing GraphQL operations',
+  labelNames: ['operationName', 'operationType'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+export const operationErrors = new Counter({
+  name: 'graphql_errors_total',
+  help: 'GraphQL errors returned, by extensions.code',
+  labelNames: ['code'] as const,
+  registers: [registry],
+});
+
+export const prismaQueries = new Counter({
+  name: 'prisma_queries_total',
+  help: 'Prisma queries run, by the GraphQL operation that ran them',
+  labelNames: ['operationName', 'model', 'action'] as const,
+  registers: [registry],
+});
+
+export const requestsInFlight = new Gauge({
+  name: 'graphql_requests_in_flight',
+  help: 'Requests currently being handled (excluding /metrics)',
+  registers: [registry],
+});
+
+// Name of the operation being executed, so Prisma queries (counted in
+// src/db/prisma.ts) can be attributed to it
+const currentOperation = new AsyncLocalStorage<string>();
+
+export const runInOperation = <T>(operationName: string, fn: () => T): T => {
+  return currentOperation.run(operationName, fn);
+};
+
+export const countPrismaQuery = (model: string, action: string) => {
+  prismaQueries.inc({ operationName: currentOperation.getStore() ?? 'none', model, action });
+};
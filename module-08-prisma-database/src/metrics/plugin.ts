@@ -0,0 +1,97 @@
+import { GraphQLError, getOperationAST } from 'graphql';
+import { Plugin, isAsyncIterable } from 'graphql-yoga';
+import { GraphQLContext } from '../types/index.js';
+import {
+  operationDuration,
+  operationErrors,
+  registry,
+  requestsInFlight,
+  runInOperation,
+} from './index.js';
+
+export interface MetricsOptions {
+  endpoint?: string; // Where the metrics are served (default /metrics)
+  // Operation names recorded as labels - any other name is recorded as
+  // "other", so clients can't create new series (default: none)
+  operationNames?: Iterable<string>;
+}
+
+const countErrors = (errors: readonly GraphQLError[] = []) => {
+  for (const error of errors) {
+    operationErrors.inc({ code: String(error.extensions?.code ?? 'INTERNAL_SERVER_ERROR') });
+  }
+};
+
+// Prometheus metrics
+//
+// Serves the registry at `endpoint`, next to /graphql, and records:
+// - graphql_operation_duration_seconds  execution time by operation
+// - graphql_errors_total                errors by extensions.code, including
+//                                       parse/validation errors
+// - prisma_queries_total                Prisma queries by operation
+// - graphql_requests_in_flight          requests being handled right now
+export const useMetrics = ({
+  endpoint = '/metrics',
+  operationNames = [],
+}: MetricsOptions = {}): Plugin<GraphQLContext> => {
+  const inFlight = new WeakSet<Request>();
+  const knownNames = new Set(operationNames);
+
+  const operationLabel = (name: string | undefined) => {
+    if (name === undefined) {
+      return 'anonymous';
+    }
+    return knownNames.has(name) ? name : 'other';
+  };
+
+  return {
+    async onRequest({ request, url, endResponse, fetchAPI }) {
+      if (url.pathname === endpoint) {
+        endResponse(
+          new fetchAPI.Response(await registry.metrics(), {
+            headers: { 'Content-Type': registry.contentType },
+          })
+        );
+        return;
+      }
+
+      inFlight.add(request);
+      requestsInFlight.inc();
+    },
+
+    onResponse({ request }) {
+      if (inFlight.delete(request)) {
+        requestsInFlight.dec();
+      }
+    },
+
+    onExecute({ args, executeFn, setExecuteFn }) {
+      const operation = getOperationAST(args.document, args.operationName);
+      const labels = {
+        operationName: operationLabel(operation?.name?.value),
+        operationType: operation?.operation ?? 'unknown',
+      };
+      const stopTimer = operationDuration.startTimer(labels);
+
+      setExecuteFn((executeArgs) =>
+        runInOperation(labels.operationName, () => executeFn(executeArgs))
+      );
+
+      return {
+        onExecuteDone() {
+          stopTimer();
+        },
+      };
+    },
+
+    // Every result - including requests rejected before execution
+    // (parse/validation errors, query limits)
+    onResultProcess({ result }) {
+      if (Array.isArray(result)) {
+        result.forEach((item) => countErrors(item.errors));
+      } else if (!isAsyncIterable(result)) {
+        countErrors(result.errors);
+      }
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import { PubSub as YogaPubSub, createPubSub } from 'graphql-yoga';
+import { DbComment, DbPost } from '../types/index.js';
+import { connectRedisEventTarget } from './redis.js';
+
+// Events published by mutations and consumed by subscriptions.
+// Channels with an id argument are scoped - subscribers only receive events
+// for the post they subscribed to.
+export type PubSubChannels = {
+  'post:published': [post: DbPost];
+  'post:updated': [postId: string, post: DbPost];
+  'comment:added': [postId: string, comment: DbComment];
+};
+
+export type PubSub = YogaPubSub<PubSubChannels>;
+
+// Pub/sub backend (override via environment variables)
+// memory - events only reach subscribers connected to this process
+// redis  - events go through Redis, so a mutation handled by one replica
+//          reaches subscribers connected to any other replica
+const PUBSUB_BACKEND = (process.env.PUBSUB_BACKEND || 'memory') as 'memory' | 'redis';
+const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+
+// In-process pub/sub
+export const createMemoryPubSub = (): PubSub => {
+  return createPubSub<PubSubChannels>();
+};
+
+// Pub/sub shared by every replica connected to the same Redis server
+export const createRedisPubSub = (url: string): { pubsub: PubSub; close: () => Promise<void> } => {
+  const { eventTarget, close } = connectRedisEventTarget<PubSubChannels>(url);
+  return { pubsub: createPubSub<PubSubChannels>({ eventTarget }), close };
+};
+
+const createConfiguredPubSub = (): { pubsub: PubSub; close: () => Promise<void> } => {
+  if (PUBSUB_BACKEND === 'redis') {
+    return createRedisPubSub(REDIS_URL);
+  }
+  return { pubsub: createMemoryPubSub(), close: async () => {} };
+};
+
+const configured = createConfiguredPubSub();
+
+// Shared by every request on this server and handed to resolvers through
+// GraphQLContext - resolvers never depend on which backend is in use
+export const pubsub = configured.pubsub;
+
+// Close backend connections (called on shutdown)
+export const closePubSub = configured.close;
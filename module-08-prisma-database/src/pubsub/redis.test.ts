@@ -0,0 +1,180 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo, Server, Socket, createServer } from 'node:net';
+import { createRedisPubSub } from './index.js';
+import { DbPost } from '../types/index.js';
+
+// Local stand-in for a Redis server - just enough of the protocol for
+// PUBLISH/SUBSCRIBE: each connection sends commands as arrays of bulk
+// strings, subscribers get ["message", channel, payload] pushed to them.
+const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+const array = (items: string[]) => `*${items.length}\r\n${items.join('')}`;
+
+// Parse complete commands from the front of `buffer`, returning the rest
+const parseCommands = (buffer: Buffer): { commands: string[][]; rest: Buffer } => {
+  const commands: string[][] = [];
+  let offset = 0;
+
+  // "*<count>\r\n" then "$<length>\r\n<bytes>\r\n" per argument
+  const readLine = (from: number) => {
+    const end = buffer.indexOf('\r\n', from);
+    return end === -1 ? null : { value: Number(buffer.subarray(from + 1, end)), next: end + 2 };
+  };
+
+  parsing: while (offset < buffer.length) {
+    const header = readLine(offset);
+    if (!header) break;
+
+    const args: string[] = [];
+    let position = header.next;
+
+    for (let i = 0; i < header.value; i++) {
+      const length = readLine(position);
+      if (!length || buffer.length < length.next + length.value + 2) break parsing;
+      args.push(buffer.subarray(length.next, length.next + length.value).toString());
+      position = length.next + length.value + 2;
+    }
+
+    commands.push(args);
+    offset = position;
+  }
+
+  return { commands, rest: buffer.subarray(offset) };
+};
+
+const startRedisStandIn = (): Promise<Server> => {
+  const subscribers = new Map<string, Set<Socket>>();
+
+  const server = createServer((socket) => {
+    let buffer: Buffer = Buffer.alloc(0);
+    const channels = new Set<string>();
+
+    socket.on('data', (data: Buffer) => {
+      const parsed = parseCommands(Buffer.concat([buffer, data]));
+      buffer = parsed.rest;
+
+      for (const [name, ...args] of parsed.commands) {
+        switch (name.toLowerCase()) {
+          case 'subscribe':
+          case 'unsubscribe':
+            for (const channel of args) {
+              const subscribing = name.toLowerCase() === 'subscribe';
+              const sockets = subscribers.get(channel) ?? new Set();
+              subscribers.set(channel, sockets);
+              if (subscribing) {
+                sockets.add(socket);
+                channels.add(channel);
+              } else {
+                sockets.delete(socket);
+                channels.delete(channel);
+              }
+              socket.write(array([bulk(name.toLowerCase()), bulk(channel), `:${channels.size}\r\n`]));
+            }
+            break;
+          case 'publish': {
+            const [channel, message] = args;
+            const sockets = subscribers.get(channel) ?? new Set();
+            for (const subscriber of sockets) {
+              subscriber.write(array([bulk('message'), bulk(channel), bulk(message)]));
+            }
+            socket.write(`:${sockets.size}\r\n`);
+            break;
+          }
+          case 'info':
+            socket.write(bulk('# Server\r\nloading:0\r\n'));
+            break;
+          case 'quit':
+            socket.end('+OK\r\n');
+            break;
+          default:
+            socket.write('+OK\r\n');
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      for (const channel of channels) {
+        subscribers.get(channel)?.delete(socket);
+      }
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+};
+
+describe('Redis pub/sub', () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    server = await startRedisStandIn();
+    url = `redis://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('delivers events published by one replica to subscribers of another', async () => {
+    const publisher = createRedisPubSub(url);
+    const subscriber = createRedisPubSub(url);
+
+    try {
+      const events = subscriber.pubsub.subscribe('post:updated', '1');
+      const next = events.next();
+
+      // Give the SUBSCRIBE a moment to reach the server before publishing
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const post: DbPost = {
+        id: '1',
+        title: 'Hello',
+        content: 'World',
+        published: true,
+        createdAt: new Date('2026-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+        deletedAt: null,
+        authorId: '2',
+      };
+      publisher.pubsub.publish('post:updated', '1', post);
+
+      const { value } = await next;
+      assert.deepEqual(value, post);
+
+      await events.return();
+    } finally {
+      await Promise.all([publisher.close(), subscriber.close()]);
+    }
+  });
+
+  it('turns date fields back into Dates', async () => {
+    const publisher = createRedisPubSub(url);
+    const subscriber = createRedisPubSub(url);
+
+    try {
+      const events = subscriber.pubsub.subscribe('post:published');
+      const next = events.next();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const deletedAt = new Date('2026-03-01T00:00:00.000Z');
+      publisher.pubsub.publish('post:published', {
+        id: '3',
+        title: 'Deleted',
+        content: 'Gone',
+        published: true,
+        createdAt: new Date('2026-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+        deletedAt,
+        authorId: '2',
+      });
+
+      const { value } = await next;
+      assert.ok(value.deletedAt instanceof Date);
+      assert.equal(value.deletedAt.getTime(), deletedAt.getTime());
+
+      await events.return();
+    } finally {
+      await Promise.all([publisher.close(), subscriber.close()]);
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { Redis } from 'ioredis';
+import { createRedisEventTarget } from '@graphql-yoga/redis-event-target';
+import { PubSubEventTarget } from 'graphql-yoga';
+import { logger } from '../services/logger.js';
+
+const log = logger.child({ component: 'pubsub' });
+
+// Fields that are Date objects on Prisma rows. Events travel through Redis as
+// JSON, so they arrive as ISO strings and are turned back into Dates here -
+// subscribers then see the same row shape whichever replica published it.
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'deletedAt']);
+
+const serializer = {
+  stringify: (message: unknown) => JSON.stringify(message),
+  parse: (message: string) =>
+    JSON.parse(message, (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+    ),
+};
+
+// Channel name -> published arguments, as createPubSub expects
+type Channels = Record<string, [] | [unknown] | [number | string, unknown]>;
+
+export interface RedisEventTarget<T extends Channels> {
+  eventTarget: PubSubEventTarget<T>;
+  close: () => Promise<void>;
+}
+
+// Event target backed by Redis PUBLISH/SUBSCRIBE.
+//
+// A connection in subscriber mode can't issue other commands, so publishing
+// and subscribing use separate connections. Any server that speaks the Redis
+// protocol works (Redis, Valkey, KeyDB, or a local stand-in for development).
+export const connectRedisEventTarget = <T extends Channels>(
+  url: string
+): RedisEventTarget<T> => {
+  const publishClient = new Redis(url);
+  const subscribeClient = new Redis(url);
+
+  for (const client of [publishClient, subscribeClient]) {
+    // ioredis reconnects on its own - log instead of crashing the process
+    client.on('error', (error: Error) => {
+      log.error('Redis connection error', { error });
+    });
+  }
+
+  return {
+    eventTarget: createRedisEventTarget({ publishClient, subscribeClient, serializer }),
+    close: async () => {
+      await Promise.all([publishClient.quit(), subscribeClient.quit()]);
+    },
+  };
+};
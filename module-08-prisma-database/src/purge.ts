@@ -0,0 +1,52 @@
+import type { Database } from './db/prisma.js';
+import { logger } from './services/logger.js';
+
+const log = logger.child({ component: 'purge' });
+
+export interface PurgeOptions {
+  prisma: Database;
+  retentionMs: number; // How long soft-deleted rows are kept
+  intervalMs: number;  // How often the job runs
+}
+
+export interface PurgeResult {
+  comments: number;
+  posts: number;
+  users: number;
+}
+
+// Hard-delete users, posts and comments soft-deleted before the retention
+// period. Children go first, so the database cascades never remove a row
+// that's still within its retention period.
+export const purgeDeleted = async (prisma: Database, retentionMs: number): Promise<PurgeResult> => {
+  const where = { deletedAt: { lt: new Date(Date.now() - retentionMs) } };
+
+  const [comments, posts, users] = await prisma.$transaction([
+    prisma.comment.deleteMany({ where }),
+    prisma.post.deleteMany({ where }),
+    prisma.user.deleteMany({ where }),
+  ]);
+
+  return { comments: comments.count, posts: posts.count, users: users.count };
+};
+
+// Run the purge on startup and every `intervalMs`. Returns a function that
+// stops the job (on shutdown). The timer doesn't keep the process alive.
+export const startPurgeJob = ({ prisma, retentionMs, intervalMs }: PurgeOptions) => {
+  const run = async () => {
+    try {
+      const purged = await purgeDeleted(prisma, retentionMs);
+      if (purged.comments + purged.posts + purged.users > 0) {
+        log.info('Purged deleted records', { ...purged });
+      }
+    } catch (error) {
+      log.error('Purge of deleted records failed', { error });
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
@@ -1,11 +1,14 @@
 import { Query } from './query.js';
 import { Mutation } from './mutation.js';
-import { User, Post, Comment } from './types.js';
+import { Subscription } from './subscription.js';
+import { User, Post, Comment, SearchResult } from './types.js';
 
 export const resolvers = {
   Query,
   Mutation,
+  Subscription,
   User,
   Post,
   Comment,
+  SearchResult,
 };
@@ -7,79 +7,161 @@ import {
   UpdatePostInput,
   CreateCommentInput,
 } from '../types/index.js';
-
-// Helper to check authentication
-const requireAuth = (context: GraphQLContext) => {
-  if (!context.currentUser) {
-    throw new GraphQLError('Authentication required', {
-      extensions: { code: 'UNAUTHENTICATED' },
-    });
-  }
-  return context.currentUser;
-};
-
-// Helper to check admin role
-const requireAdmin = (context: GraphQLContext) => {
-  const user = requireAuth(context);
-  if (user.role !== 'admin') {
-    throw new GraphQLError('Admin access required', {
-      extensions: { code: 'FORBIDDEN' },
-    });
-  }
-  return user;
-};
+import { hashPassword, signAccessToken, verifyPassword } from '../services/auth.js';
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSessionFamily,
+  rotateRefreshToken,
+} from '../services/session.js';
+import { ConflictError, NotFoundError } from '../errors/index.js';
 
 export const Mutation = {
-  // Create user (admin only)
-  createUser: async (
+  // Log in with email and password - returns a signed JWT
+  login: async (
     _: unknown,
-    args: { input: CreateUserInput },
+    args: { email: string; password: string },
     context: GraphQLContext
   ) => {
-    requireAdmin(context);
-
-    const { email, name, role = 'user' } = args.input;
-
-    // Check if email already exists
-    const existing = await context.prisma.user.findUnique({
-      where: { email },
+    const user = await context.prisma.user.findUnique({
+      where: { email: args.email },
     });
 
-    if (existing) {
-      throw new GraphQLError(`User with email "${email}" already exists`, {
-        extensions: { code: 'CONFLICT' },
+    // Same error for unknown email and wrong password - don't reveal which
+    if (!user || !(await verifyPassword(args.password, user.passwordHash))) {
+      throw new GraphQLError('Invalid email or password', {
+        extensions: { code: 'UNAUTHENTICATED' },
       });
     }
 
-    const user = await context.prisma.user.create({
-      data: { email, name, role },
-    });
+    const session = await createSession(context.prisma, user.id);
+    const { token, expiresAt } = signAccessToken(
+      { id: user.id, email: user.email, role: user.role as 'admin' | 'user' },
+      session.familyId
+    );
 
     return {
-      success: true,
-      message: 'User created successfully',
+      token,
+      expiresAt,
+      refreshToken: session.refreshToken,
+      refreshTokenExpiresAt: session.refreshTokenExpiresAt,
       user,
     };
   },
 
-  // Update user (admin only)
-  updateUser: async (
+  // Exchange a refresh token for a new access token and a rotated refresh token
+  refreshToken: async (
     _: unknown,
-    args: { id: string; input: UpdateUserInput },
+    args: { refreshToken: string },
     context: GraphQLContext
   ) => {
-    requireAdmin(context);
+    const session = await rotateRefreshToken(context.prisma, args.refreshToken);
 
     const user = await context.prisma.user.findUnique({
-      where: { id: args.id },
+      where: { id: session.userId },
     });
 
     if (!user) {
-      throw new GraphQLError('User not found', {
-        extensions: { code: 'NOT_FOUND' },
+      throw new GraphQLError('Invalid refresh token', {
+        extensions: { code: 'INVALID_TOKEN' },
       });
     }
 
+    const { token, expiresAt } = signAccessToken(
+      { id: user.id, email: user.email, role: user.role as 'admin' | 'user' },
+      session.familyId
+    );
+
+    return {
+      token,
+      expiresAt,
+      refreshToken: session.refreshToken,
+      refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+      user,
+    };
+  },
+
+  // Log out the current session - its access and refresh tokens stop working
+  logout: async (_: unknown, __: unknown, context: GraphQLContext) => {
+    const user = context.currentUser!;
+
+    await revokeSessionFamily(context.prisma, user.sessionId);
+
+    return {
+      success: true,
+      message: 'Logged out successfully',
+    };
+  },
+
+  // Log out everywhere - own sessions, or any user's sessions for admins
+  revokeAllSessions: async (
+    _: unknown,
+    args: { userId?: string },
+    context: GraphQLContext
+  ) => {
+    const user = context.currentUser!;
+    const targetUserId = args.userId ?? user.id;
+
+    if (targetUserId !== user.id && user.role !== 'admin') {
+      throw new GraphQLError('Not authorized to revoke sessions of another user', {
+        extensions: { code: 'FORBIDDEN' },
+      });
+    }
+
+    const count = await revokeAllSessions(context.prisma, targetUserId);
+
+    return {
+      success: true,
+      message: `Revoked ${count} session(s)`,
+    };
+  },
+
+  // Create user (admin only - @hasRole)
+  //
+  // A soft-deleted user keeps their email until the purge job removes them:
+  // restore them with restoreUser, or pass replaceDeleted to hard-delete them
+  // (with their posts, comments and sessions) and reuse the address.
+  createUser: async (
+    _: unknown,
+    args: { input: CreateUserInput; replaceDeleted?: boolean },
+    context: GraphQLContext
+  ) => {
+    const { email, name, password, role = 'user' } = args.input;
+    const data = { email, name, role, passwordHash: await hashPassword(password) };
+
+    const deleted = await context.prisma.user.findFirst({
+      where: { email, deletedAt: { not: null } },
+    });
+
+    if (deleted && !args.replaceDeleted) {
+      throw new ConflictError(
+        'A deleted user has this email - restore them with restoreUser, or pass replaceDeleted: true',
+        { resource: 'User', resourceId: deleted.id, field: 'email' }
+      );
+    }
+
+    // A duplicate email fails the unique constraint -> ALREADY_EXISTS
+    const user = deleted
+      ? (await context.prisma.$transaction([
+          context.prisma.user.deleteMany({ where: { id: deleted.id, deletedAt: deleted.deletedAt } }),
+          context.prisma.user.create({ data }),
+        ]))[1]
+      : await context.prisma.user.create({ data });
+
+    return {
+      success: true,
+      message: 'User created successfully',
+      user,
+    };
+  },
+
+  // Update user (admin only - @hasRole)
+  updateUser: async (
+    _: unknown,
+    args: { id: string; input: UpdateUserInput },
+    context: GraphQLContext
+  ) => {
+    // A missing user fails the update -> NOT_FOUND
     const updated = await context.prisma.user.update({
       where: { id: args.id },
       data: args.input,
@@ -92,31 +174,84 @@ export const Mutation = {
     };
   },
 
-  // Delete user (admin only)
+  // Delete user (admin only - @hasRole)
+  //
+  // Soft delete: the user, their posts and comments, and other users'
+  // comments on those posts are hidden with the same timestamp, so
+  // restoreUser brings back exactly this set. Their sessions are revoked.
   deleteUser: async (
     _: unknown,
     args: { id: string },
     context: GraphQLContext
   ) => {
-    requireAdmin(context);
+    const deletedAt = new Date();
+
+    // A missing (or already deleted) user fails the update -> NOT_FOUND
+    await context.prisma.$transaction([
+      context.prisma.user.update({
+        where: { id: args.id },
+        data: { deletedAt },
+      }),
+      context.prisma.post.updateMany({
+        where: { authorId: args.id },
+        data: { deletedAt },
+      }),
+      context.prisma.comment.updateMany({
+        where: { OR: [{ authorId: args.id }, { post: { authorId: args.id } }] },
+        data: { deletedAt },
+      }),
+    ]);
+    await revokeAllSessions(context.prisma, args.id);
 
-    const user = await context.prisma.user.findUnique({
-      where: { id: args.id },
+    return {
+      success: true,
+      message: 'User deleted successfully',
+    };
+  },
+
+  // Restore a soft-deleted user with the posts and comments deleted with them
+  // (admin only - @hasRole)
+  restoreUser: async (
+    _: unknown,
+    args: { id: string },
+    context: GraphQLContext
+  ) => {
+    const user = await context.prisma.user.findFirst({
+      where: { id: args.id, deletedAt: { not: null } },
     });
 
     if (!user) {
-      throw new GraphQLError('User not found', {
-        extensions: { code: 'NOT_FOUND' },
-      });
+      throw new NotFoundError('Deleted user', args.id);
     }
 
-    await context.prisma.user.delete({
-      where: { id: args.id },
-    });
+    const { deletedAt } = user;
+    const [restored] = await context.prisma.$transaction([
+      context.prisma.user.update({
+        where: { id: args.id, deletedAt },
+        data: { deletedAt: null },
+      }),
+      context.prisma.post.updateMany({
+        where: { authorId: args.id, deletedAt },
+        data: { deletedAt: null },
+      }),
+      // Other users' comments on the restored posts stay hidden while their
+      // own author is deleted
+      context.prisma.comment.updateMany({
+        where: {
+          OR: [
+            { authorId: args.id },
+            { post: { authorId: args.id }, author: { deletedAt: null } },
+          ],
+          deletedAt,
+        },
+        data: { deletedAt: null },
+      }),
+    ]);
 
     return {
       success: true,
-      message: 'User deleted successfully',
+      message: 'User restored successfully',
+      user: restored,
     };
   },
 
@@ -126,16 +261,10 @@ export const Mutation = {
     args: { input: CreatePostInput },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
+    const user = context.currentUser!;
 
     const { title, content, published = false } = args.input;
 
-    if (!title || title.trim().length < 3) {
-      throw new GraphQLError('Title must be at least 3 characters', {
-        extensions: { code: 'VALIDATION_ERROR', field: 'title' },
-      });
-    }
-
     const post = await context.prisma.post.create({
       data: {
         title: title.trim(),
@@ -145,6 +274,10 @@ export const Mutation = {
       },
     });
 
+    if (post.published) {
+      context.pubsub.publish('post:published', post);
+    }
+
     return {
       success: true,
       message: 'Post created successfully',
@@ -152,30 +285,14 @@ export const Mutation = {
     };
   },
 
-  // Update post (owner or admin)
+  // Update post (owner or admin - @isOwner)
   updatePost: async (
     _: unknown,
     args: { id: string; input: UpdatePostInput },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
-
-    const post = await context.prisma.post.findUnique({
-      where: { id: args.id },
-    });
-
-    if (!post) {
-      throw new GraphQLError('Post not found', {
-        extensions: { code: 'NOT_FOUND' },
-      });
-    }
-
-    // Check ownership
-    if (post.authorId !== user.id && user.role !== 'admin') {
-      throw new GraphQLError('Not authorized to update this post', {
-        extensions: { code: 'FORBIDDEN' },
-      });
-    }
+    // Already loaded (and cached) by @isOwner
+    const existing = await context.loaders.postById.load(args.id);
 
     const updated = await context.prisma.post.update({
       where: { id: args.id },
@@ -186,6 +303,11 @@ export const Mutation = {
       },
     });
 
+    context.pubsub.publish('post:updated', updated.id, updated);
+    if (updated.published && !existing?.published) {
+      context.pubsub.publish('post:published', updated);
+    }
+
     return {
       success: true,
       message: 'Post updated successfully',
@@ -193,69 +315,97 @@ export const Mutation = {
     };
   },
 
-  // Delete post (owner or admin)
+  // Delete post (owner or admin - @isOwner)
+  // Soft delete - the post's comments are hidden with it
   deletePost: async (
     _: unknown,
     args: { id: string },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
+    const deletedAt = new Date();
+
+    await context.prisma.$transaction([
+      context.prisma.post.update({
+        where: { id: args.id },
+        data: { deletedAt },
+      }),
+      context.prisma.comment.updateMany({
+        where: { postId: args.id },
+        data: { deletedAt },
+      }),
+    ]);
 
-    const post = await context.prisma.post.findUnique({
-      where: { id: args.id },
+    return {
+      success: true,
+      message: 'Post deleted successfully',
+    };
+  },
+
+  // Restore a soft-deleted post and the comments deleted with it
+  // (admin only - @hasRole)
+  restorePost: async (
+    _: unknown,
+    args: { id: string },
+    context: GraphQLContext
+  ) => {
+    const post = await context.prisma.post.findFirst({
+      where: { id: args.id, deletedAt: { not: null } },
     });
 
     if (!post) {
-      throw new GraphQLError('Post not found', {
-        extensions: { code: 'NOT_FOUND' },
-      });
+      throw new NotFoundError('Deleted post', args.id);
     }
 
-    if (post.authorId !== user.id && user.role !== 'admin') {
-      throw new GraphQLError('Not authorized to delete this post', {
-        extensions: { code: 'FORBIDDEN' },
+    // Posts of a deleted user come back with restoreUser
+    const author = await context.prisma.user.findUnique({
+      where: { id: post.authorId },
+    });
+
+    if (!author) {
+      throw new ConflictError('The post\'s author is deleted - restore the user instead', {
+        resource: 'Post',
+        resourceId: args.id,
       });
     }
 
-    await context.prisma.post.delete({
-      where: { id: args.id },
-    });
+    const { deletedAt } = post;
+    const [restored] = await context.prisma.$transaction([
+      context.prisma.post.update({
+        where: { id: args.id, deletedAt },
+        data: { deletedAt: null },
+      }),
+      context.prisma.comment.updateMany({
+        where: { postId: args.id, deletedAt },
+        data: { deletedAt: null },
+      }),
+    ]);
 
     return {
       success: true,
-      message: 'Post deleted successfully',
+      message: 'Post restored successfully',
+      post: restored,
     };
   },
 
-  // Publish post
+  // Publish post (owner or admin - @isOwner)
   publishPost: async (
     _: unknown,
     args: { id: string },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
-
-    const post = await context.prisma.post.findUnique({
-      where: { id: args.id },
-    });
-
-    if (!post) {
-      throw new GraphQLError('Post not found', {
-        extensions: { code: 'NOT_FOUND' },
-      });
-    }
-
-    if (post.authorId !== user.id && user.role !== 'admin') {
-      throw new GraphQLError('Not authorized to publish this post', {
-        extensions: { code: 'FORBIDDEN' },
-      });
-    }
+    // Already loaded (and cached) by @isOwner
+    const existing = await context.loaders.postById.load(args.id);
 
     const updated = await context.prisma.post.update({
       where: { id: args.id },
       data: { published: true },
     });
 
+    if (!existing?.published) {
+      context.pubsub.publish('post:published', updated);
+    }
+    context.pubsub.publish('post:updated', updated.id, updated);
+
     return {
       success: true,
       message: 'Post published successfully',
@@ -263,35 +413,19 @@ export const Mutation = {
     };
   },
 
-  // Unpublish post
+  // Unpublish post (owner or admin - @isOwner)
   unpublishPost: async (
     _: unknown,
     args: { id: string },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
-
-    const post = await context.prisma.post.findUnique({
-      where: { id: args.id },
-    });
-
-    if (!post) {
-      throw new GraphQLError('Post not found', {
-        extensions: { code: 'NOT_FOUND' },
-      });
-    }
-
-    if (post.authorId !== user.id && user.role !== 'admin') {
-      throw new GraphQLError('Not authorized to unpublish this post', {
-        extensions: { code: 'FORBIDDEN' },
-      });
-    }
-
     const updated = await context.prisma.post.update({
       where: { id: args.id },
       data: { published: false },
     });
 
+    context.pubsub.publish('post:updated', updated.id, updated);
+
     return {
       success: true,
       message: 'Post unpublished successfully',
@@ -305,7 +439,7 @@ export const Mutation = {
     args: { input: CreateCommentInput },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
+    const user = context.currentUser!;
 
     const { content, postId } = args.input;
 
@@ -334,6 +468,8 @@ export const Mutation = {
       },
     });
 
+    context.pubsub.publish('comment:added', postId, comment);
+
     return {
       success: true,
       message: 'Comment created successfully',
@@ -341,32 +477,16 @@ export const Mutation = {
     };
   },
 
-  // Delete comment (owner or admin)
+  // Delete comment (owner or admin - @isOwner)
   deleteComment: async (
     _: unknown,
     args: { id: string },
     context: GraphQLContext
   ) => {
-    const user = requireAuth(context);
-
-    const comment = await context.prisma.comment.findUnique({
-      where: { id: args.id },
-    });
-
-    if (!comment) {
-      throw new GraphQLError('Comment not found', {
-        extensions: { code: 'NOT_FOUND' },
-      });
-    }
-
-    if (comment.authorId !== user.id && user.role !== 'admin') {
-      throw new GraphQLError('Not authorized to delete this comment', {
-        extensions: { code: 'FORBIDDEN' },
-      });
-    }
-
-    await context.prisma.comment.delete({
+    // Soft delete
+    await context.prisma.comment.update({
       where: { id: args.id },
+      data: { deletedAt: new Date() },
     });
 
     return {
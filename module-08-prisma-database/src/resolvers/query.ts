@@ -1,60 +1,106 @@
 import { GraphQLError } from 'graphql';
-import { GraphQLContext } from '../types/index.js';
+import {
+  GraphQLContext,
+  CommentWhereInput,
+  ConnectionArgs,
+  FilterArgs,
+  IncludeDeletedArgs,
+  PostWhereInput,
+  SearchArgs,
+  UserWhereInput,
+} from '../types/index.js';
+import { paginate } from '../utils/pagination.js';
+import { readablePosts, translateFilter, translateOrderBy } from '../filters/index.js';
+import { fullTextSearch } from '../search/index.js';
+import { INCLUDE_DELETED } from '../db/soft-delete.js';
 
-export const Query = {
-  // Get all users (admin only)
-  users: async (_: unknown, __: unknown, context: GraphQLContext) => {
-    if (!context.currentUser || context.currentUser.role !== 'admin') {
-      throw new GraphQLError('Admin access required', {
-        extensions: { code: 'FORBIDDEN' },
-      });
-    }
+// Where clause addition for includeDeleted (admins only)
+const deletedScope = (args: IncludeDeletedArgs, context: GraphQLContext) => {
+  if (!args.includeDeleted) {
+    return {};
+  }
 
-    return context.prisma.user.findMany({
-      orderBy: { createdAt: 'desc' },
+  if (context.currentUser?.role !== 'admin') {
+    throw new GraphQLError('Only admins can include deleted records', {
+      extensions: { code: 'FORBIDDEN', field: 'includeDeleted' },
     });
+  }
+
+  return INCLUDE_DELETED;
+};
+
+export const Query = {
+  // Get all users (admin only - @hasRole(role: ADMIN))
+  users: async (
+    _: unknown,
+    args: IncludeDeletedArgs & FilterArgs<UserWhereInput> & ConnectionArgs,
+    context: GraphQLContext
+  ) => {
+    const where = {
+      ...translateFilter('User', args.where, context.currentUser),
+      ...deletedScope(args, context),
+    };
+    const orderBy = translateOrderBy('User', args.orderBy);
+
+    return paginate(
+      (page) => context.prisma.user.findMany({ where, orderBy, ...page }),
+      args
+    );
   },
 
   // Get user by ID
-  user: async (_: unknown, args: { id: string }, context: GraphQLContext) => {
+  user: async (
+    _: unknown,
+    args: { id: string } & IncludeDeletedArgs,
+    context: GraphQLContext
+  ) => {
     return context.prisma.user.findUnique({
-      where: { id: args.id },
+      where: { id: args.id, ...deletedScope(args, context) },
     });
   },
 
-  // Get current authenticated user
+  // Get current authenticated user (@auth)
   me: async (_: unknown, __: unknown, context: GraphQLContext) => {
-    if (!context.currentUser) {
-      throw new GraphQLError('Authentication required', {
-        extensions: { code: 'UNAUTHENTICATED' },
-      });
-    }
-
     return context.prisma.user.findUnique({
-      where: { id: context.currentUser.id },
+      where: { id: context.currentUser!.id },
     });
   },
 
-  // Get posts (optionally filter by published status)
+  // Get posts (optionally filter by published status, narrowed by `where`).
+  // Drafts are only listed for their author and admins.
   posts: async (
     _: unknown,
-    args: { published?: boolean },
+    args: { published?: boolean } & IncludeDeletedArgs & FilterArgs<PostWhereInput> & ConnectionArgs,
     context: GraphQLContext
   ) => {
-    const where = args.published !== undefined
+    const published = args.published !== undefined
       ? { published: args.published }
       : { published: true }; // Default to published only
+    const readable = readablePosts(context.currentUser);
+    const where = {
+      AND: [
+        published,
+        ...(readable ? [readable] : []),
+        translateFilter('Post', args.where, context.currentUser),
+      ],
+      ...deletedScope(args, context),
+    };
+    const orderBy = translateOrderBy('Post', args.orderBy);
 
-    return context.prisma.post.findMany({
-      where,
-      orderBy: { createdAt: 'desc' },
-    });
+    return paginate(
+      (page) => context.prisma.post.findMany({ where, orderBy, ...page }),
+      args
+    );
   },
 
   // Get post by ID
-  post: async (_: unknown, args: { id: string }, context: GraphQLContext) => {
+  post: async (
+    _: unknown,
+    args: { id: string } & IncludeDeletedArgs,
+    context: GraphQLContext
+  ) => {
     const post = await context.prisma.post.findUnique({
-      where: { id: args.id },
+      where: { id: args.id, ...deletedScope(args, context) },
     });
 
     // Only show unpublished posts to author or admin
@@ -71,29 +117,34 @@ export const Query = {
     return post;
   },
 
-  // Get current user's posts
+  // Get current user's posts (@auth)
   myPosts: async (_: unknown, __: unknown, context: GraphQLContext) => {
-    if (!context.currentUser) {
-      throw new GraphQLError('Authentication required', {
-        extensions: { code: 'UNAUTHENTICATED' },
-      });
-    }
-
     return context.prisma.post.findMany({
-      where: { authorId: context.currentUser.id },
+      where: { authorId: context.currentUser!.id },
       orderBy: { createdAt: 'desc' },
     });
   },
 
-  // Get comments for a post
+  // Get comments for a post (narrowed by `where`)
   comments: async (
     _: unknown,
-    args: { postId: string },
+    args: { postId: string } & IncludeDeletedArgs & FilterArgs<CommentWhereInput> & ConnectionArgs,
     context: GraphQLContext
   ) => {
-    return context.prisma.comment.findMany({
-      where: { postId: args.postId },
-      orderBy: { createdAt: 'desc' },
-    });
+    const where = {
+      AND: [{ postId: args.postId }, translateFilter('Comment', args.where, context.currentUser)],
+      ...deletedScope(args, context),
+    };
+    const orderBy = translateOrderBy('Comment', args.orderBy);
+
+    return paginate(
+      (page) => context.prisma.comment.findMany({ where, orderBy, ...page }),
+      args
+    );
+  },
+
+  // Full-text search (ranked; unpublished posts only for their author / admins)
+  search: async (_: unknown, args: SearchArgs, context: GraphQLContext) => {
+    return fullTextSearch(args, context);
   },
 };
@@ -0,0 +1,64 @@
+import { GraphQLError } from 'graphql';
+import { filter, pipe } from 'graphql-yoga';
+import { AuthUser, DbComment, DbPost, GraphQLContext } from '../types/index.js';
+
+// Unpublished posts are only visible to their author and admins
+const canViewPost = (post: DbPost, user: AuthUser | null) => {
+  return post.published || user?.id === post.authorId || user?.role === 'admin';
+};
+
+// Subscriptions are delivered over SSE (POST/GET with Accept: text/event-stream)
+// and over WebSockets (graphql-ws) at the same /graphql endpoint
+export const Subscription = {
+  // A post was published
+  postPublished: {
+    subscribe: (_: unknown, __: unknown, context: GraphQLContext) => {
+      return context.pubsub.subscribe('post:published');
+    },
+    resolve: (post: DbPost) => post,
+  },
+
+  // A comment was added to a published post
+  commentAdded: {
+    subscribe: async (
+      _: unknown,
+      args: { postId: string },
+      context: GraphQLContext
+    ) => {
+      const post = await context.loaders.postById.load(args.postId);
+
+      if (!post || !post.published) {
+        throw new GraphQLError('Post not found', {
+          extensions: { code: 'NOT_FOUND' },
+        });
+      }
+
+      return context.pubsub.subscribe('comment:added', args.postId);
+    },
+    resolve: (comment: DbComment) => comment,
+  },
+
+  // A post was edited, published or unpublished
+  postUpdated: {
+    subscribe: async (
+      _: unknown,
+      args: { id: string },
+      context: GraphQLContext
+    ) => {
+      const post = await context.loaders.postById.load(args.id);
+
+      if (!post || !canViewPost(post, context.currentUser)) {
+        throw new GraphQLError('Post not found', {
+          extensions: { code: 'NOT_FOUND' },
+        });
+      }
+
+      // Drop updates the subscriber may no longer see (e.g. after unpublish)
+      return pipe(
+        context.pubsub.subscribe('post:updated', args.id),
+        filter((updated: DbPost) => canViewPost(updated, context.currentUser))
+      );
+    },
+    resolve: (post: DbPost) => post,
+  },
+};
@@ -1,51 +1,72 @@
-import { GraphQLContext } from '../types/index.js';
+import { GraphQLContext, ConnectionArgs, DbUser } from '../types/index.js';
 
 // Field resolvers for nested types
+// Relations go through the per-request DataLoaders so a list of N parents
+// costs one batched query per relation instead of N queries.
+
+// The by-id loaders also return soft-deleted users, so an admin looking at
+// deleted records still sees who wrote them. Everyone else gets a placeholder
+// in place of a deleted author (author is non-null).
+const visibleAuthor = async (authorId: string, context: GraphQLContext): Promise<DbUser | null> => {
+  const author = await context.loaders.userById.load(authorId);
+  if (!author?.deletedAt || context.currentUser?.role === 'admin') {
+    return author;
+  }
+
+  return {
+    id: author.id,
+    email: '',
+    name: 'Deleted user',
+    passwordHash: null,
+    role: 'user',
+    createdAt: author.createdAt,
+    updatedAt: author.updatedAt,
+    deletedAt: null, // Only shown to admins
+  };
+};
 
 // User field resolvers
 export const User = {
-  posts: async (parent: { id: string }, _: unknown, context: GraphQLContext) => {
-    return context.prisma.post.findMany({
-      where: { authorId: parent.id },
-      orderBy: { createdAt: 'desc' },
-    });
+  posts: async (parent: { id: string }, args: ConnectionArgs, context: GraphQLContext) => {
+    return context.loaders.postsByAuthor.load({ parentId: parent.id, args });
   },
 
   comments: async (parent: { id: string }, _: unknown, context: GraphQLContext) => {
-    return context.prisma.comment.findMany({
-      where: { authorId: parent.id },
-      orderBy: { createdAt: 'desc' },
-    });
+    return context.loaders.commentsByAuthor.load(parent.id);
   },
 };
 
 // Post field resolvers
 export const Post = {
   author: async (parent: { authorId: string }, _: unknown, context: GraphQLContext) => {
-    return context.prisma.user.findUnique({
-      where: { id: parent.authorId },
-    });
+    return visibleAuthor(parent.authorId, context);
   },
 
-  comments: async (parent: { id: string }, _: unknown, context: GraphQLContext) => {
-    return context.prisma.comment.findMany({
-      where: { postId: parent.id },
-      orderBy: { createdAt: 'desc' },
-    });
+  comments: async (parent: { id: string }, args: ConnectionArgs, context: GraphQLContext) => {
+    return context.loaders.commentsByPost.load({ parentId: parent.id, args });
   },
 };
 
 // Comment field resolvers
 export const Comment = {
   author: async (parent: { authorId: string }, _: unknown, context: GraphQLContext) => {
-    return context.prisma.user.findUnique({
-      where: { id: parent.authorId },
-    });
+    return visibleAuthor(parent.authorId, context);
   },
 
   post: async (parent: { postId: string }, _: unknown, context: GraphQLContext) => {
-    return context.prisma.post.findUnique({
-      where: { id: parent.postId },
-    });
+    return context.loaders.postById.load(parent.postId);
+  },
+};
+
+// Search results - Post, Comment or User rows
+export const SearchResult = {
+  __resolveType: (parent: object) => {
+    if ('title' in parent) {
+      return 'Post';
+    }
+    if ('postId' in parent) {
+      return 'Comment';
+    }
+    return 'User';
   },
 };
@@ -1,8 +1,34 @@
 import { createSchema } from 'graphql-yoga';
 import { typeDefs } from './typeDefs.js';
 import { resolvers } from '../resolvers/index.js';
+import { authDirectiveTypeDefs, authDirectiveTransformer } from '../directives/auth.js';
+import {
+  constraintDirectiveTypeDefs,
+  constraintDirectiveTransformer,
+} from '../directives/constraint.js';
+import { costDirectiveTypeDefs } from '../directives/cost.js';
+import { cacheControlDirective } from '@graphql-yoga/plugin-response-cache';
+import { tracingTransformer } from '../tracing/index.js';
 
-export const schema = createSchema({
-  typeDefs,
-  resolvers,
-});
+// Authorization (@auth, @hasRole, @isOwner) and input validation (@constraint)
+// are declared in the SDL and enforced by wrapping resolvers after the schema
+// is built. Auth is applied last so it runs first - anonymous callers get
+// UNAUTHENTICATED rather than a list of validation errors. @cost is only read
+// by the query complexity analysis and @cacheControl by the response cache.
+// Tracing wraps everything, so resolver spans include the directive checks.
+export const schema = tracingTransformer(
+  authDirectiveTransformer(
+    constraintDirectiveTransformer(
+      createSchema({
+        typeDefs: [
+          authDirectiveTypeDefs,
+          constraintDirectiveTypeDefs,
+          costDirectiveTypeDefs,
+          cacheControlDirective,
+          typeDefs,
+        ],
+        resolvers,
+      })
+    )
+  )
+);
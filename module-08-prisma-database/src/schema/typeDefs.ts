@@ -1,65 +1,227 @@
 export const typeDefs = /* GraphQL */ `
   # User type
-  type User {
+  # (@cacheControl: how long the response cache keeps results containing a
+  # type or field, in seconds; PRIVATE results are cached per user)
+  type User @cacheControl(maxAge: 60) {
     id: ID!
-    email: String!
+    email: String! @cacheControl(scope: PRIVATE)
     name: String!
     role: String!
     createdAt: String!
-    posts: [Post!]!
-    comments: [Comment!]!
+    deletedAt: String # Set when soft-deleted - only visible to admins (includeDeleted)
+    posts(first: Int, after: String, last: Int, before: String): PostConnection!
+    comments: [Comment!]! @cost(assumedSize: 20)
   }
 
   # Post type
-  type Post {
+  type Post @cacheControl(maxAge: 60) {
     id: ID!
     title: String!
     content: String!
     published: Boolean!
     createdAt: String!
     updatedAt: String!
+    deletedAt: String
     author: User!
-    comments: [Comment!]!
+    comments(first: Int, after: String, last: Int, before: String): CommentConnection!
   }
 
   # Comment type
-  type Comment {
+  type Comment @cacheControl(maxAge: 60) {
     id: ID!
     content: String!
     createdAt: String!
+    deletedAt: String
     author: User!
     post: Post!
   }
 
-  # Input types
+  # Relay-style pagination
+  # (edges, node and pageInfo are plain wrappers - the connection field
+  # itself carries the cost, multiplied by first/last)
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type UserEdge {
+    node: User! @cost(weight: 0)
+    cursor: String!
+  }
+
+  type UserConnection {
+    edges: [UserEdge!]! @cost(weight: 0)
+    pageInfo: PageInfo! @cost(weight: 0)
+  }
+
+  type PostEdge {
+    node: Post! @cost(weight: 0)
+    cursor: String!
+  }
+
+  type PostConnection {
+    edges: [PostEdge!]! @cost(weight: 0)
+    pageInfo: PageInfo! @cost(weight: 0)
+  }
+
+  type CommentEdge {
+    node: Comment! @cost(weight: 0)
+    cursor: String!
+  }
+
+  type CommentConnection {
+    edges: [CommentEdge!]! @cost(weight: 0)
+    pageInfo: PageInfo! @cost(weight: 0)
+  }
+
+  # Full-text search
+  enum SearchType {
+    POST
+    COMMENT
+    USER
+  }
+
+  union SearchResult = Post | Comment | User
+
+  type SearchEdge {
+    node: SearchResult! @cost(weight: 0)
+    cursor: String!
+    score: Float!     # Relevance - higher is better
+    title: String     # Post title / user name with <mark> around matching words
+    snippet: String   # Excerpt of the post / comment content around the matches
+  }
+
+  type SearchConnection {
+    edges: [SearchEdge!]! @cost(weight: 0)
+    pageInfo: PageInfo! @cost(weight: 0)
+  }
+
+  # List filters - translated into Prisma where / orderBy (src/filters).
+  # Fields in one input are combined with AND; nulls are ignored.
+  input StringFilter {
+    equals: String
+    in: [String!]
+    contains: String
+    startsWith: String
+    endsWith: String
+  }
+
+  # ISO-8601 dates, e.g. "2026-01-31" or "2026-01-31T12:00:00Z"
+  input DateTimeFilter {
+    equals: String
+    gt: String
+    gte: String
+    lt: String
+    lte: String
+  }
+
+  input UserWhereInput {
+    AND: [UserWhereInput!]
+    OR: [UserWhereInput!]
+    NOT: [UserWhereInput!]
+    name: StringFilter
+    role: Role
+    createdAt: DateTimeFilter
+    posts: PostListFilter
+  }
+
+  input PostWhereInput {
+    AND: [PostWhereInput!]
+    OR: [PostWhereInput!]
+    NOT: [PostWhereInput!]
+    title: StringFilter
+    content: StringFilter
+    published: Boolean
+    createdAt: DateTimeFilter
+    author: UserWhereInput
+    comments: CommentListFilter
+  }
+
+  input CommentWhereInput {
+    AND: [CommentWhereInput!]
+    OR: [CommentWhereInput!]
+    NOT: [CommentWhereInput!]
+    content: StringFilter
+    createdAt: DateTimeFilter
+    author: UserWhereInput
+    post: PostWhereInput
+  }
+
+  # To-many relations: some / every / none of the related rows match
+  input PostListFilter {
+    some: PostWhereInput
+    every: PostWhereInput
+    none: PostWhereInput
+  }
+
+  input CommentListFilter {
+    some: CommentWhereInput
+    every: CommentWhereInput
+    none: CommentWhereInput
+  }
+
+  # Sorting - one field per item, applied in list order
+  enum SortOrder {
+    ASC
+    DESC
+  }
+
+  input UserOrderByInput {
+    name: SortOrder
+    createdAt: SortOrder
+  }
+
+  input PostOrderByInput {
+    title: SortOrder
+    createdAt: SortOrder
+    updatedAt: SortOrder
+  }
+
+  input CommentOrderByInput {
+    createdAt: SortOrder
+  }
+
+  # Input types (@constraint is checked before the resolver runs)
   input CreateUserInput {
-    email: String!
-    name: String!
-    role: String
+    email: String! @constraint(format: "email", maxLength: 254)
+    name: String! @constraint(minLength: 1, maxLength: 100)
+    password: String! @constraint(minLength: 8, maxLength: 128)
+    role: String @constraint(pattern: "^(admin|user)$")
   }
 
   input UpdateUserInput {
-    email: String
-    name: String
+    email: String @constraint(format: "email", maxLength: 254)
+    name: String @constraint(minLength: 1, maxLength: 100)
   }
 
   input CreatePostInput {
-    title: String!
-    content: String!
+    title: String! @constraint(minLength: 3, maxLength: 200)
+    content: String! @constraint(maxLength: 50000)
     published: Boolean
   }
 
   input UpdatePostInput {
-    title: String
-    content: String
+    title: String @constraint(minLength: 3, maxLength: 200)
+    content: String @constraint(maxLength: 50000)
     published: Boolean
   }
 
   input CreateCommentInput {
-    content: String!
+    content: String! @constraint(minLength: 1, maxLength: 2000)
     postId: ID!
   }
 
+  # Authentication
+  type AuthPayload {
+    token: String!
+    expiresAt: String!
+    refreshToken: String!
+    refreshTokenExpiresAt: String!
+    user: User!
+  }
+
   # Mutation responses
   type MutationResponse {
     success: Boolean!
@@ -85,37 +247,97 @@ export const typeDefs = /* GraphQL */ `
   }
 
   # Queries
+  # (includeDeleted: admins only - also return soft-deleted records)
   type Query {
     # User queries
-    users: [User!]!
-    user(id: ID!): User
-    me: User
+    users(
+      includeDeleted: Boolean
+      where: UserWhereInput
+      orderBy: [UserOrderByInput!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): UserConnection! @hasRole(role: ADMIN) @cacheControl(scope: PRIVATE)
+    user(id: ID!, includeDeleted: Boolean): User
+    me: User @auth @cacheControl(scope: PRIVATE)
 
-    # Post queries
-    posts(published: Boolean): [Post!]!
-    post(id: ID!): Post
-    myPosts: [Post!]!
+    # Post queries (\`where\` narrows the \`published\` filter, which
+    # defaults to published posts only - \`published: false\` lists the
+    # caller's own drafts, or every draft for admins)
+    posts(
+      published: Boolean
+      includeDeleted: Boolean
+      where: PostWhereInput
+      orderBy: [PostOrderByInput!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): PostConnection!
+    post(id: ID!, includeDeleted: Boolean): Post
+    myPosts: [Post!]! @auth @cost(assumedSize: 20) @cacheControl(scope: PRIVATE)
 
     # Comment queries
-    comments(postId: ID!): [Comment!]!
+    comments(
+      postId: ID!
+      includeDeleted: Boolean
+      where: CommentWhereInput
+      orderBy: [CommentOrderByInput!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): CommentConnection!
+
+    # Full-text search across posts, comments and user names, best matches
+    # first (types: all when omitted)
+    search(
+      query: String! @constraint(minLength: 1, maxLength: 200)
+      types: [SearchType!]
+      first: Int
+      after: String
+    ): SearchConnection!
   }
 
-  # Mutations
-  type Mutation {
+  # Mutations - every mutation requires authentication unless marked @public.
+  # Deletes are soft: the record is hidden until restored or purged.
+  type Mutation @auth {
+    # Authentication
+    login(email: String!, password: String!): AuthPayload! @public
+    refreshToken(refreshToken: String!): AuthPayload! @public
+    logout: MutationResponse!
+    revokeAllSessions(userId: ID): MutationResponse!
+
     # User mutations (admin only)
-    createUser(input: CreateUserInput!): UserMutationResponse!
-    updateUser(id: ID!, input: UpdateUserInput!): UserMutationResponse!
-    deleteUser(id: ID!): MutationResponse!
+    # replaceDeleted: hard-delete a soft-deleted user with the same email first
+    createUser(input: CreateUserInput!, replaceDeleted: Boolean = false): UserMutationResponse! @hasRole(role: ADMIN)
+    updateUser(id: ID!, input: UpdateUserInput!): UserMutationResponse! @hasRole(role: ADMIN)
+    deleteUser(id: ID!): MutationResponse! @hasRole(role: ADMIN)
+    restoreUser(id: ID!): UserMutationResponse! @hasRole(role: ADMIN)
 
-    # Post mutations
+    # Post mutations (update/delete/publish: owner or admin; restore: admin)
     createPost(input: CreatePostInput!): PostMutationResponse!
-    updatePost(id: ID!, input: UpdatePostInput!): PostMutationResponse!
-    deletePost(id: ID!): MutationResponse!
-    publishPost(id: ID!): PostMutationResponse!
-    unpublishPost(id: ID!): PostMutationResponse!
+    updatePost(id: ID!, input: UpdatePostInput!): PostMutationResponse! @isOwner(resource: POST)
+    deletePost(id: ID!): MutationResponse! @isOwner(resource: POST)
+    restorePost(id: ID!): PostMutationResponse! @hasRole(role: ADMIN)
+    publishPost(id: ID!): PostMutationResponse! @isOwner(resource: POST)
+    unpublishPost(id: ID!): PostMutationResponse! @isOwner(resource: POST)
 
     # Comment mutations
     createComment(input: CreateCommentInput!): CommentMutationResponse!
-    deleteComment(id: ID!): MutationResponse!
+    deleteComment(id: ID!): MutationResponse! @isOwner(resource: COMMENT)
+  }
+
+  # Subscriptions (SSE or WebSocket)
+  type Subscription {
+    # Fired by publishPost
+    postPublished: Post!
+
+    # Fired by createComment on the given post
+    commentAdded(postId: ID!): Comment!
+
+    # Fired by updatePost, publishPost and unpublishPost for the given post
+    postUpdated(id: ID!): Post!
   }
 `;
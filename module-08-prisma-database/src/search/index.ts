@@ -0,0 +1,167 @@
+import { GraphQLError } from 'graphql';
+import {
+  DbComment,
+  DbPost,
+  DbUser,
+  GraphQLContext,
+  SearchArgs,
+  SearchConnection,
+  SearchEdge,
+  SearchType,
+} from '../types/index.js';
+import {
+  DEFAULT_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  validatePageSize,
+} from '../utils/pagination.js';
+
+const TYPENAMES: Record<SearchType, SearchRow['type']> = {
+  POST: 'Post',
+  COMMENT: 'Comment',
+  USER: 'User',
+};
+
+// A match in the search_index FTS5 table, with the record it belongs to from
+// search_index_rows (see prisma/migrations/*_add_search_index)
+interface SearchRow {
+  type: 'Post' | 'Comment' | 'User';
+  id: string;
+  title: string | null;
+  snippet: string | null;
+  rank: number; // bm25 - lower is more relevant
+}
+
+// Titles count four times as much as content. Soft-deleted records are never
+// found; unpublished posts, and comments on them, only by their author and
+// admins.
+const searchQuery = (typeCount: number) => `
+  SELECT
+    "row"."type",
+    "row"."id",
+    highlight("search_index", 0, '<mark>', '</mark>') AS "title",
+    snippet("search_index", 1, '<mark>', '</mark>', '…', 16) AS "snippet",
+    bm25("search_index", 4.0, 1.0) AS "rank"
+  FROM "search_index"
+  JOIN "search_index_rows" AS "row"
+    ON "row"."rowid" = "search_index"."rowid"
+  LEFT JOIN "posts" AS "post"
+    ON "row"."type" = 'Post' AND "post"."id" = "row"."id"
+  LEFT JOIN "comments" AS "comment"
+    ON "row"."type" = 'Comment' AND "comment"."id" = "row"."id"
+  LEFT JOIN "posts" AS "commentPost"
+    ON "commentPost"."id" = "comment"."postId"
+  LEFT JOIN "users" AS "user"
+    ON "row"."type" = 'User' AND "user"."id" = "row"."id"
+  WHERE "search_index" MATCH ?
+    AND "row"."type" IN (${Array(typeCount).fill('?').join(', ')})
+    AND COALESCE("post"."deletedAt", "comment"."deletedAt", "user"."deletedAt") IS NULL
+    AND (
+      "row"."type" = 'User'
+      OR COALESCE("post"."published", "commentPost"."published") = 1
+      OR COALESCE("post"."authorId", "commentPost"."authorId") = ?
+      OR ? = 1
+    )
+  ORDER BY "rank", "row"."id"
+  LIMIT ? OFFSET ?
+`;
+
+// Turn what the user typed into an FTS5 query. Every word becomes a quoted
+// term, so FTS5 operators and punctuation in the input are never interpreted.
+// All words must match; the last one also matches as a prefix, so results
+// show up while the user is still typing.
+export const toMatchQuery = (query: string): string | null => {
+  const words = query.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) {
+    return null;
+  }
+
+  return words
+    .map((word, index) => (index === words.length - 1 ? `"${word}"*` : `"${word}"`))
+    .join(' ');
+};
+
+// Results are ordered by relevance rather than by a column, so search cursors
+// hold a position in the ranking instead of a row id
+const decodeOffset = (cursor: string): number => {
+  const offset = Number(decodeCursor(cursor, 'after'));
+
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new GraphQLError('Invalid cursor passed to "after"', {
+      extensions: { code: 'VALIDATION_ERROR', field: 'after' },
+    });
+  }
+
+  return offset;
+};
+
+const loadNode = (
+  row: SearchRow,
+  context: GraphQLContext
+): Promise<DbPost | DbComment | DbUser | null> => {
+  switch (row.type) {
+    case 'Post':
+      return context.loaders.postById.load(row.id);
+    case 'Comment':
+      return context.loaders.commentById.load(row.id);
+    case 'User':
+      return context.loaders.userById.load(row.id);
+  }
+};
+
+// Full-text search across posts, comments and user names, best matches first
+export const fullTextSearch = async (
+  args: SearchArgs,
+  context: GraphQLContext
+): Promise<SearchConnection> => {
+  validatePageSize(args.first, 'first');
+
+  const size = args.first ?? DEFAULT_PAGE_SIZE;
+  const offset = args.after ? decodeOffset(args.after) : 0;
+  const match = toMatchQuery(args.query);
+  const types = args.types?.length
+    ? [...new Set(args.types)].map((type) => TYPENAMES[type])
+    : Object.values(TYPENAMES);
+
+  let rows: SearchRow[] = [];
+  if (match && size > 0) {
+    rows = await context.prisma.$queryRawUnsafe(
+      searchQuery(types.length),
+      match,
+      ...types,
+      context.currentUser?.id ?? null,
+      context.currentUser?.role === 'admin' ? 1 : 0,
+      size + 1,
+      offset
+    );
+  }
+
+  const page = rows.slice(0, size);
+  const nodes = await Promise.all(page.map((row) => loadNode(row, context)));
+
+  // A record deleted since the index was queried is left out, but keeps its
+  // place in the ranking so the next page's cursor stays valid
+  const edges: SearchEdge[] = [];
+  page.forEach((row, index) => {
+    const node = nodes[index];
+    if (node) {
+      edges.push({
+        node,
+        cursor: encodeCursor(String(offset + index + 1)),
+        score: -row.rank,
+        title: row.title,
+        snippet: row.snippet,
+      });
+    }
+  });
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: rows.length > size,
+      hasPreviousPage: offset > 0,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+  };
+};
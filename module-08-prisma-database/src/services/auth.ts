@@ -0,0 +1,125 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import jwt from 'jsonwebtoken';
+import { GraphQLError } from 'graphql';
+import { AuthUser } from '../types/index.js';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+// JWT configuration (override via environment variables)
+// HS256 signs with a shared secret; RS256 signs with a private key and
+// verifies with the public key, so other services can verify without signing.
+const JWT_ALGORITHM = (process.env.JWT_ALGORITHM || 'HS256') as 'HS256' | 'RS256';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m'; // Short-lived - clients refresh
+const JWT_ISSUER = process.env.JWT_ISSUER || 'graphql-prisma-demo';
+const DEV_SECRET = 'dev-only-secret-change-me';
+
+const getSigningKey = (): string => {
+  if (JWT_ALGORITHM === 'RS256') {
+    if (!process.env.JWT_PRIVATE_KEY) {
+      throw new Error('JWT_PRIVATE_KEY is required when JWT_ALGORITHM=RS256');
+    }
+    return process.env.JWT_PRIVATE_KEY;
+  }
+  return getSecret();
+};
+
+const getVerificationKey = (): string => {
+  if (JWT_ALGORITHM === 'RS256') {
+    if (!process.env.JWT_PUBLIC_KEY) {
+      throw new Error('JWT_PUBLIC_KEY is required when JWT_ALGORITHM=RS256');
+    }
+    return process.env.JWT_PUBLIC_KEY;
+  }
+  return getSecret();
+};
+
+const getSecret = (): string => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  return DEV_SECRET;
+};
+
+// Claims we put into every access token
+interface AccessTokenClaims {
+  sub: string;
+  sid: string; // Session (refresh token family) the token belongs to
+  email: string;
+  role: AuthUser['role'];
+}
+
+// Sign a short-lived access token for a user's session
+export const signAccessToken = (
+  user: Omit<AuthUser, 'sessionId'>,
+  sessionId: string
+): { token: string; expiresAt: string } => {
+  const claims: AccessTokenClaims = {
+    sub: user.id,
+    sid: sessionId,
+    email: user.email,
+    role: user.role,
+  };
+
+  const token = jwt.sign(claims, getSigningKey(), {
+    algorithm: JWT_ALGORITHM,
+    expiresIn: JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+    issuer: JWT_ISSUER,
+  });
+
+  const { exp } = jwt.decode(token) as { exp: number };
+
+  return { token, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+// Verify an access token - throws TOKEN_EXPIRED or INVALID_TOKEN
+export const verifyAccessToken = (token: string): AccessTokenClaims => {
+  try {
+    const payload = jwt.verify(token, getVerificationKey(), {
+      algorithms: [JWT_ALGORITHM], // Never let the token pick its own algorithm
+      issuer: JWT_ISSUER,
+    });
+
+    if (typeof payload === 'string' || !payload.sub || !payload.sid) {
+      throw new jwt.JsonWebTokenError('Malformed token payload');
+    }
+
+    return payload as AccessTokenClaims;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new GraphQLError('Authentication token has expired', {
+        extensions: { code: 'TOKEN_EXPIRED', http: { status: 401 } },
+      });
+    }
+    throw new GraphQLError('Invalid authentication token', {
+      extensions: { code: 'INVALID_TOKEN', http: { status: 401 } },
+    });
+  }
+};
+
+// Password hashing with scrypt - stored as "scrypt$<salt>$<hash>"
+const KEY_LENGTH = 64;
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (
+  password: string,
+  storedHash: string | null
+): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = (storedHash ?? '').split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+
+  return timingSafeEqual(actual, expected);
+};
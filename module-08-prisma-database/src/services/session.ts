@@ -0,0 +1,139 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { GraphQLError } from 'graphql';
+import type { Database } from '../db/prisma.js';
+
+// Refresh tokens live much longer than access tokens (default 30 days)
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+interface SessionRow {
+  id: string;
+  familyId: string;
+  userId: string;
+  expiresAt: Date;
+  replacedById: string | null;
+  revokedAt: Date | null;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+  familyId: string;
+  userId: string;
+}
+
+// Only the hash is stored, so a leaked database can't be replayed
+const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+const invalidRefreshToken = () =>
+  new GraphQLError('Invalid refresh token', {
+    extensions: { code: 'INVALID_TOKEN', http: { status: 401 } },
+  });
+
+const reuseDetected = () =>
+  new GraphQLError('Refresh token reuse detected - all sessions in this family were revoked', {
+    extensions: { code: 'INVALID_TOKEN', http: { status: 401 } },
+  });
+
+// Store a new refresh token in a family and return the raw token
+const issueInFamily = async (
+  prisma: Database,
+  userId: string,
+  familyId: string
+): Promise<{ sessionId: string; issued: IssuedRefreshToken }> => {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const session: SessionRow = await prisma.session.create({
+    data: { userId, familyId, tokenHash: hashToken(refreshToken), expiresAt },
+  });
+
+  return {
+    sessionId: session.id,
+    issued: {
+      refreshToken,
+      refreshTokenExpiresAt: expiresAt.toISOString(),
+      familyId,
+      userId,
+    },
+  };
+};
+
+// Start a new session (token family) - called on login
+export const createSession = async (
+  prisma: Database,
+  userId: string
+): Promise<IssuedRefreshToken> => {
+  const { issued } = await issueInFamily(prisma, userId, randomUUID());
+  return issued;
+};
+
+// Revoke every token in a family (logout, or reuse detected)
+export const revokeSessionFamily = async (
+  prisma: Database,
+  familyId: string
+): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+};
+
+// Revoke every session a user has (log out everywhere)
+export const revokeAllSessions = async (
+  prisma: Database,
+  userId: string
+): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+};
+
+// Exchange a refresh token for a new one in the same family.
+//
+// A refresh token can be used exactly once. If an already-rotated token is
+// presented again, either the client or an attacker holds a stolen copy -
+// we can't tell which, so the whole family is revoked and both must log in.
+export const rotateRefreshToken = async (
+  prisma: Database,
+  refreshToken: string
+): Promise<IssuedRefreshToken> => {
+  const session: SessionRow | null = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!session || session.revokedAt) {
+    throw invalidRefreshToken();
+  }
+
+  if (session.replacedById) {
+    await revokeSessionFamily(prisma, session.familyId);
+    throw reuseDetected();
+  }
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    throw new GraphQLError('Refresh token has expired', {
+      extensions: { code: 'TOKEN_EXPIRED', http: { status: 401 } },
+    });
+  }
+
+  const next = await issueInFamily(prisma, session.userId, session.familyId);
+
+  // Claim the old token atomically - if two requests race with the same
+  // token, only one update matches and the other is treated as reuse
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, replacedById: null, revokedAt: null },
+    data: { replacedById: next.sessionId },
+  });
+
+  if (count === 0) {
+    await revokeSessionFamily(prisma, session.familyId);
+    throw reuseDetected();
+  }
+
+  return next.issued;
+};
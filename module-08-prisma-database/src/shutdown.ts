@@ -0,0 +1,85 @@
+import { Server } from 'node:http';
+
+// Shared with module-08-prisma-database-02 - keep both copies identical
+
+// Where shutdown progress is reported - a structured logger, or the console
+export interface ShutdownLog {
+  info: (message: string, meta?: Record<string, unknown>) => void;
+  error: (message: string, meta?: Record<string, unknown>) => void;
+}
+
+export interface ShutdownOptions {
+  server: Server;
+  drainDelayMs: number;             // How long /readyz reports draining before the server closes
+  timeoutMs: number;                // Longest wait for in-flight requests
+  onDrain: () => void;              // Called first - readiness starts failing
+  onClose?: () => void;             // Called when the server stops accepting connections
+  cleanup: () => Promise<void>;     // Called once requests are done (disconnect Prisma, ...)
+  log?: ShutdownLog;                // Defaults to the console
+}
+
+const consoleLog: ShutdownLog = {
+  info: (message, meta) => (meta ? console.log(message, meta) : console.log(message)),
+  error: (message, meta) => (meta ? console.error(message, meta) : console.error(message)),
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Stop accepting connections and resolve once the in-flight requests on the
+// open ones have finished. Idle keep-alive connections are closed right away;
+// whatever is still open after `timeoutMs` (e.g. long-lived SSE
+// subscriptions) is cut.
+const closeServer = (server: Server, timeoutMs: number): Promise<void> => {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => server.closeAllConnections(), timeoutMs);
+    server.close(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+    server.closeIdleConnections();
+  });
+};
+
+// Graceful shutdown on SIGTERM (orchestrators) and SIGINT (Ctrl+C).
+//
+// 1. Readiness fails, and the server keeps serving for `drainDelayMs` so the
+//    load balancer notices and stops sending new requests (skipped on SIGINT)
+// 2. The server stops accepting connections and waits for in-flight requests
+// 3. Connections (Prisma, Redis, ...) are closed and the process exits
+//
+// A second signal exits immediately.
+export const handleShutdownSignals = (options: ShutdownOptions) => {
+  const log = options.log ?? consoleLog;
+  let shuttingDown = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      log.info('Signal received again, exiting now', { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    log.info('Signal received, shutting down gracefully', { signal });
+    options.onDrain();
+
+    try {
+      if (signal === 'SIGTERM') {
+        await delay(options.drainDelayMs);
+      }
+
+      const closed = closeServer(options.server, options.timeoutMs);
+      options.onClose?.();
+      await closed;
+
+      await options.cleanup();
+      log.info('Shutdown complete');
+      process.exit(0);
+    } catch (error) {
+      log.error('Error during shutdown', { error });
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+};
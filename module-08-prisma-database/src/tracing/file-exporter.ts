@@ -0,0 +1,39 @@
+import { appendFile } from 'node:fs/promises';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+// Appends each batch of spans to a file as one OTLP/JSON
+// ExportTraceServiceRequest per line - the format the OpenTelemetry
+// Collector's file exporter writes and its otlpjsonfile receiver reads, so the
+// file can be replayed into any tracing backend.
+export class OtlpFileSpanExporter implements SpanExporter {
+  private pending = new Set<Promise<void>>();
+
+  constructor(private readonly path: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const body = JsonTraceSerializer.serializeRequest(spans);
+    if (!body) {
+      resultCallback({ code: ExportResultCode.FAILED, error: new Error('Cannot serialize spans') });
+      return;
+    }
+
+    const write = appendFile(this.path, `${Buffer.from(body).toString('utf8')}\n`)
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error: Error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      )
+      .finally(() => this.pending.delete(write));
+
+    this.pending.add(write);
+  }
+
+  async forceFlush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+}
@@ -0,0 +1,60 @@
+import { context, propagation, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { OtlpFileSpanExporter } from './file-exporter.js';
+
+export { useTracing } from './plugin.js';
+export { tracingTransformer } from './resolvers.js';
+export { tracer } from './tracer.js';
+
+// Span exporter (override via environment variables)
+// off    - no spans are recorded
+// memory - spans are kept in memoryExporter, for tests
+// file   - spans are appended to TRACING_FILE as OTLP/JSON lines
+const TRACING_EXPORTER = (process.env.TRACING_EXPORTER || 'off') as 'off' | 'memory' | 'file';
+const TRACING_FILE = process.env.TRACING_FILE || 'traces.jsonl';
+
+// Finished spans when TRACING_EXPORTER=memory - read them with
+// getFinishedSpans() and clear them with reset() between tests
+export const memoryExporter = new InMemorySpanExporter();
+
+const createSpanProcessor = (): SpanProcessor | null => {
+  switch (TRACING_EXPORTER) {
+    case 'memory':
+      return new SimpleSpanProcessor(memoryExporter);
+    case 'file':
+      return new BatchSpanProcessor(new OtlpFileSpanExporter(TRACING_FILE));
+    default:
+      return null;
+  }
+};
+
+// Register the tracer provider, the W3C traceparent propagator and the
+// AsyncLocalStorage context manager (which lets Prisma spans find the
+// resolver span they run under). Returns a function that flushes pending
+// spans, for shutdown.
+export const setupTracing = (): (() => Promise<void>) => {
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+
+  const processor = createSpanProcessor();
+  if (!processor) {
+    return async () => {};
+  }
+
+  const provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': 'module-08-prisma-database' }),
+    spanProcessors: [processor],
+  });
+  trace.setGlobalTracerProvider(provider);
+
+  return () => provider.shutdown();
+};
@@ -0,0 +1,136 @@
+import {
+  Context,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { getOperationAST } from 'graphql';
+import { Plugin, isAsyncIterable } from 'graphql-yoga';
+import { GraphQLContext } from '../types/index.js';
+import { recordError, tracer } from './tracer.js';
+
+// Reads propagation headers (traceparent, tracestate) from a Fetch API request
+const headerGetter = {
+  get: (headers: Headers, key: string) => headers.get(key) ?? undefined,
+  keys: (headers: Headers) => [...headers.keys()],
+};
+
+// Operation tracing
+//
+// Each HTTP request gets a server span, continuing the trace of an incoming
+// W3C `traceparent` header. Under it:
+//
+//   POST /graphql
+//   ├── graphql.parse
+//   ├── graphql.validate
+//   └── graphql.execute          (graphql.operation.name, requestId)
+//       ├── Query.posts
+//       │   └── prisma:Post.findMany
+//       └── Post.author          (see resolvers.ts)
+//
+// WebSocket operations have no HTTP request, so their spans start new traces.
+export const useTracing = (): Plugin<GraphQLContext> => {
+  const requestSpans = new WeakMap<Request, { span: Span; context: Context }>();
+
+  // Parent of the parse / validate / execute spans of a request
+  const parentContext = (request: Request | undefined): Context => {
+    return (request && requestSpans.get(request)?.context) ?? context.active();
+  };
+
+  const startRequestSpan = (request: Request) => {
+    const url = new URL(request.url);
+    const incoming = propagation.extract(ROOT_CONTEXT, request.headers, headerGetter);
+    const span = tracer.startSpan(
+      `${request.method} ${url.pathname}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'http.request.method': request.method,
+          'url.path': url.pathname,
+        },
+      },
+      incoming
+    );
+    requestSpans.set(request, { span, context: trace.setSpan(incoming, span) });
+  };
+
+  return {
+    // Started at parse rather than onRequest so requests that never reach
+    // GraphQL (GraphiQL, /metrics, health checks) aren't traced
+    onParse({ context: { request } }) {
+      if (request && !requestSpans.has(request)) {
+        startRequestSpan(request);
+      }
+
+      const span = tracer.startSpan('graphql.parse', {}, parentContext(request));
+      return ({ result }) => {
+        if (result instanceof Error) {
+          recordError(span, result);
+        }
+        span.end();
+      };
+    },
+
+    onValidate({ context: { request } }) {
+      const span = tracer.startSpan('graphql.validate', {}, parentContext(request));
+      return ({ valid, result }) => {
+        if (!valid) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: result.map((error) => error.message).join('\n'),
+          });
+        }
+        span.end();
+      };
+    },
+
+    onExecute({ args, executeFn, setExecuteFn }) {
+      const { request, requestId } = args.contextValue;
+      const operation = getOperationAST(args.document, args.operationName);
+      const attributes = {
+        'graphql.operation.name': operation?.name?.value ?? args.operationName ?? '',
+        'graphql.operation.type': operation?.operation ?? '',
+        requestId,
+      };
+
+      requestSpans.get(request)?.span.setAttributes(attributes);
+
+      const parent = parentContext(request);
+      const span = tracer.startSpan('graphql.execute', { attributes }, parent);
+
+      // Run the resolvers with the execute span active, so their spans
+      // (and the Prisma spans under them) join this trace
+      const spanContext = trace.setSpan(parent, span);
+      setExecuteFn((executeArgs) => context.with(spanContext, () => executeFn(executeArgs)));
+
+      return {
+        onExecuteDone({ result }) {
+          if (!isAsyncIterable(result) && result.errors?.length) {
+            const codes = result.errors.map((error) => String(error.extensions?.code ?? 'INTERNAL_SERVER_ERROR'));
+            span.setAttribute('graphql.error.codes', [...new Set(codes)]);
+            span.setStatus({ code: SpanStatusCode.ERROR });
+          }
+          span.end();
+        },
+      };
+    },
+
+    onResponse({ request, response }) {
+      const entry = requestSpans.get(request);
+      if (!entry) {
+        return;
+      }
+
+      entry.span.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 500) {
+        entry.span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      entry.span.end();
+      requestSpans.delete(request);
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { GraphQLSchema, responsePathAsArray } from 'graphql';
+import { MapperKind, mapSchema } from '@graphql-tools/utils';
+import { recordError, tracer } from './tracer.js';
+
+// Types whose resolvers get a span of their own
+const TRACED_TYPES = new Set(['Query', 'Mutation', 'User', 'Post', 'Comment']);
+
+// Schema transformer - wraps every resolver of the traced types in a span
+// named after the field (e.g. "Post.author"). Fields without a resolver only
+// read a property and aren't traced. The span is active while the resolver
+// runs, so Prisma queries it makes become its children.
+export const tracingTransformer = (schema: GraphQLSchema): GraphQLSchema => {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, fieldName, typeName) => {
+      const { resolve } = fieldConfig;
+      if (!resolve || !TRACED_TYPES.has(typeName)) {
+        return fieldConfig;
+      }
+
+      return {
+        ...fieldConfig,
+        resolve: (source, args, context, info) => {
+          return tracer.startActiveSpan(
+            `${typeName}.${fieldName}`,
+            {
+              attributes: {
+                'graphql.field.name': fieldName,
+                'graphql.field.path': responsePathAsArray(info.path).join('.'),
+                'graphql.parent.type': typeName,
+              },
+            },
+            async (span) => {
+              try {
+                return await resolve(source, args, context, info);
+              } catch (error) {
+                recordError(span, error);
+                throw error;
+              } finally {
+                span.end();
+              }
+            }
+          );
+        },
+      };
+    },
+  });
+};
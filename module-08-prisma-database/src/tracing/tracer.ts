@@ -0,0 +1,18 @@
+import { Span, SpanStatusCode, trace } from '@opentelemetry/api';
+import { GraphQLError } from 'graphql';
+
+export const tracer = trace.getTracer('module-08-prisma-database');
+
+// Mark a span as failed. GraphQL errors also record their extensions.code.
+export const recordError = (span: Span, error: unknown) => {
+  if (error instanceof Error) {
+    span.recordException(error);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+  } else {
+    span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+
+  if (error instanceof GraphQLError && error.extensions?.code) {
+    span.setAttribute('graphql.error.code', String(error.extensions.code));
+  }
+};
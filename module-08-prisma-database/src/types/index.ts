@@ -1,28 +1,127 @@
-import { PrismaClient } from '@prisma/client';
+import type { Database } from '../db/prisma.js';
+import type { Loaders } from '../loaders/index.js';
+import type { PubSub } from '../pubsub/index.js';
 
 // Authenticated user from token
 export interface AuthUser {
   id: string;
   email: string;
   role: 'admin' | 'user';
+  sessionId: string; // Refresh token family the access token was issued for
+}
+
+// Database rows as returned by Prisma
+export interface DbUser {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string | null;
+  role: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export interface DbPost {
+  id: string;
+  title: string;
+  content: string;
+  published: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+  authorId: string;
+}
+
+export interface DbComment {
+  id: string;
+  content: string;
+  createdAt: Date;
+  deletedAt: Date | null;
+  authorId: string;
+  postId: string;
 }
 
 // GraphQL Context - the key to dependency injection
 export interface GraphQLContext {
   // Prisma client for database access
-  prisma: PrismaClient;
+  prisma: Database;
 
   // Current authenticated user (null if not authenticated)
   currentUser: AuthUser | null;
 
+  // Per-request DataLoaders that batch relation lookups
+  loaders: Loaders;
+
+  // Event bus for subscriptions
+  pubsub: PubSub;
+
   // Request metadata
   requestId: string;
 }
 
+// Idempotency keys - the first response to a mutation is stored per
+// key + user + mutation and replayed when the client retries
+export interface IdempotencyScope {
+  key: string;       // Idempotency-Key request header
+  userId: string;    // Current user id, or "anonymous"
+  operation: string; // Root mutation field(s), e.g. "createPost"
+}
+
+export interface IdempotencyRecord {
+  fingerprint: string;     // Hash of the document and variables
+  response: string | null; // Serialized result - null while still running
+}
+
+export interface IdempotencyStore {
+  // Claim the key for a new request. Returns null when the claim succeeded,
+  // otherwise the record of the request that holds the key.
+  claim(scope: IdempotencyScope, fingerprint: string, expiresAt: Date): Promise<IdempotencyRecord | null>;
+  // Store the response of the request that holds the key
+  complete(scope: IdempotencyScope, response: string, expiresAt: Date): Promise<void>;
+  // Give the key up (the request failed) so a retry runs again
+  release(scope: IdempotencyScope): Promise<void>;
+}
+
+// Log levels, from most to least verbose
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+// Fields attached to every entry of a logger and its children
+export interface LogBindings {
+  requestId?: string;
+  userId?: string;
+  operationName?: string;
+  [key: string]: unknown;
+}
+
+// One structured log line
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [key: string]: unknown;
+}
+
+// Where entries are written (stdout by default, an array in tests)
+export type LogSink = (entry: LogEntry) => void;
+
+// Logger interface
+export interface Logger {
+  trace: (message: string, meta?: Record<string, unknown>) => void;
+  debug: (message: string, meta?: Record<string, unknown>) => void;
+  info: (message: string, meta?: Record<string, unknown>) => void;
+  warn: (message: string, meta?: Record<string, unknown>) => void;
+  error: (message: string, meta?: Record<string, unknown>) => void;
+
+  // Logger whose entries also carry `bindings`
+  child: (bindings: LogBindings) => Logger;
+}
+
 // Input types
 export interface CreateUserInput {
   email: string;
   name: string;
+  password: string;
   role?: string;
 }
 
@@ -47,3 +146,120 @@ export interface CreateCommentInput {
   content: string;
   postId: string;
 }
+
+// Relay-style pagination arguments
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Edge<T> {
+  node: T;
+  cursor: string;
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[];
+  pageInfo: PageInfo;
+}
+
+// List filters and ordering - GraphQL input shapes, translated into Prisma
+// `where` / `orderBy` by src/filters
+export type SortOrder = 'ASC' | 'DESC';
+
+export interface StringFilter {
+  equals?: string | null;
+  in?: string[] | null;
+  contains?: string | null;
+  startsWith?: string | null;
+  endsWith?: string | null;
+}
+
+export interface DateTimeFilter {
+  equals?: string | null;
+  gt?: string | null;
+  gte?: string | null;
+  lt?: string | null;
+  lte?: string | null;
+}
+
+export interface ListFilter<T> {
+  some?: T | null;
+  every?: T | null;
+  none?: T | null;
+}
+
+export interface UserWhereInput {
+  AND?: UserWhereInput[] | null;
+  OR?: UserWhereInput[] | null;
+  NOT?: UserWhereInput[] | null;
+  name?: StringFilter | null;
+  role?: 'ADMIN' | 'USER' | null;
+  createdAt?: DateTimeFilter | null;
+  posts?: ListFilter<PostWhereInput> | null;
+}
+
+export interface PostWhereInput {
+  AND?: PostWhereInput[] | null;
+  OR?: PostWhereInput[] | null;
+  NOT?: PostWhereInput[] | null;
+  title?: StringFilter | null;
+  content?: StringFilter | null;
+  published?: boolean | null;
+  createdAt?: DateTimeFilter | null;
+  author?: UserWhereInput | null;
+  comments?: ListFilter<CommentWhereInput> | null;
+}
+
+export interface CommentWhereInput {
+  AND?: CommentWhereInput[] | null;
+  OR?: CommentWhereInput[] | null;
+  NOT?: CommentWhereInput[] | null;
+  content?: StringFilter | null;
+  createdAt?: DateTimeFilter | null;
+  author?: UserWhereInput | null;
+  post?: PostWhereInput | null;
+}
+
+// One field per item, e.g. [{ title: ASC }, { createdAt: DESC }]
+export type OrderByInput = Record<string, SortOrder | null | undefined>;
+
+export interface FilterArgs<Where> {
+  where?: Where | null;
+  orderBy?: OrderByInput[] | null;
+}
+
+// Soft-deleted records are hidden unless an admin passes includeDeleted
+export interface IncludeDeletedArgs {
+  includeDeleted?: boolean | null;
+}
+
+// Full-text search
+export type SearchType = 'POST' | 'COMMENT' | 'USER';
+
+export interface SearchArgs {
+  query: string;
+  types?: SearchType[] | null;
+  first?: number | null;
+  after?: string | null;
+}
+
+export interface SearchEdge extends Edge<DbPost | DbComment | DbUser> {
+  score: number;          // Relevance - higher is better
+  title: string | null;   // Post title / user name with <mark> around matches
+  snippet: string | null; // Excerpt of the post / comment content around the matches
+}
+
+export interface SearchConnection {
+  edges: SearchEdge[];
+  pageInfo: PageInfo;
+}
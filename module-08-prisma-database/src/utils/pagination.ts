@@ -0,0 +1,130 @@
+import { GraphQLError } from 'graphql';
+import { Connection, ConnectionArgs } from '../types/index.js';
+
+// Page size used when the client passes neither `first` nor `last`
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Upper bound for a single page - keeps one request from loading the whole table
+export const MAX_PAGE_SIZE = 100;
+
+// Stable ordering for every connection. `id` breaks ties between rows
+// created in the same millisecond so cursors never skip or repeat rows.
+export const CONNECTION_ORDER = [{ createdAt: 'desc' as const }, { id: 'desc' as const }];
+
+// The slice of Prisma's findMany arguments that pagination controls
+export interface PageQuery {
+  take: number;
+  skip?: number;
+  cursor?: { id: string };
+}
+
+const CURSOR_PREFIX = 'cursor:';
+
+// Cursors are opaque to clients - they wrap the row id
+export const encodeCursor = (id: string): string => {
+  return Buffer.from(`${CURSOR_PREFIX}${id}`).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string, argName: string): string => {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+
+  if (!decoded.startsWith(CURSOR_PREFIX) || decoded.length === CURSOR_PREFIX.length) {
+    throw new GraphQLError(`Invalid cursor passed to "${argName}"`, {
+      extensions: { code: 'VALIDATION_ERROR', field: argName },
+    });
+  }
+
+  return decoded.slice(CURSOR_PREFIX.length);
+};
+
+export const validatePageSize = (value: number | null | undefined, argName: string) => {
+  if (value === null || value === undefined) return;
+
+  if (value < 0 || value > MAX_PAGE_SIZE) {
+    throw new GraphQLError(`"${argName}" must be between 0 and ${MAX_PAGE_SIZE}`, {
+      extensions: { code: 'VALIDATION_ERROR', field: argName },
+    });
+  }
+};
+
+// Resolved pagination arguments, shared by `paginate` and the batched relation loaders
+export interface PagePlan {
+  query: PageQuery;
+  size: number;
+  backward: boolean;
+  hasCursor: boolean;
+}
+
+// Translate Relay arguments into Prisma findMany arguments.
+//
+// Forward pagination (`first`/`after`) and backward pagination (`last`/`before`)
+// both fetch one extra row to find out whether another page exists. Prisma
+// handles the backward case with a negative `take` and still returns rows in
+// the requested order.
+export const planPage = (args: ConnectionArgs): PagePlan => {
+  const { first, after, last, before } = args;
+
+  validatePageSize(first, 'first');
+  validatePageSize(last, 'last');
+
+  if (first != null && last != null) {
+    throw new GraphQLError('Passing both "first" and "last" is not supported', {
+      extensions: { code: 'VALIDATION_ERROR' },
+    });
+  }
+
+  const backward = last != null || (before != null && first == null);
+  const size = (backward ? last : first) ?? DEFAULT_PAGE_SIZE;
+  const cursorArg = backward ? before : after;
+  const cursorId = cursorArg ? decodeCursor(cursorArg, backward ? 'before' : 'after') : undefined;
+
+  return {
+    query: {
+      take: backward ? -(size + 1) : size + 1,
+      ...(cursorId && { cursor: { id: cursorId }, skip: 1 }),
+    },
+    size,
+    backward,
+    hasCursor: Boolean(cursorId),
+  };
+};
+
+// Shape rows fetched with `plan.query` as a Relay connection
+export const buildConnection = <T extends { id: string }>(
+  rows: T[],
+  plan: PagePlan
+): Connection<T> => {
+  const { size, backward, hasCursor } = plan;
+
+  const hasMore = rows.length > size;
+  const nodes = hasMore
+    ? backward
+      ? rows.slice(1)
+      : rows.slice(0, size)
+    : rows;
+
+  const edges = nodes.map((node) => ({
+    node,
+    cursor: encodeCursor(node.id),
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: backward ? hasCursor : hasMore,
+      hasPreviousPage: backward ? hasMore : hasCursor,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+  };
+};
+
+// Run a cursor-paginated findMany and return the page as a Relay connection
+export const paginate = async <T extends { id: string }>(
+  findMany: (page: PageQuery) => Promise<T[]>,
+  args: ConnectionArgs
+): Promise<Connection<T>> => {
+  const plan = planPage(args);
+  const rows = await findMany(plan.query);
+  return buildConnection(rows, plan);
+};